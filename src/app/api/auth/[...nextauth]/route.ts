@@ -1,11 +1,29 @@
 import NextAuth from 'next-auth';
 import SpotifyProvider from 'next-auth/providers/spotify';
-import { scopes } from '@/lib/spotify';
+import CredentialsProvider from 'next-auth/providers/credentials';
+import { scopes, DEMO_MODE, DEMO_USER_ID, SPOTIFY_ACCOUNTS_BASE_URL, SPOTIFY_API_BASE_URL } from '@/lib/spotify';
+import { createMockToken, getMockTokenTtl, getMockUsers, parseMockToken } from '@/lib/mock-spotify/handler';
+
+// Demo sessions carry mock tokens that the bundled fixture handler accepts
+function createDemoTokens(userId: string) {
+  return {
+    accessToken: createMockToken(userId),
+    refreshToken: createMockToken(userId, 'refresh'),
+    accessTokenExpires: Date.now() + (getMockTokenTtl() * 1000),
+  };
+}
 
 async function refreshAccessToken(token: any) {
+  // Demo tokens are refreshed locally, there is no accounts service to call
+  const demoToken = DEMO_MODE && token.refreshToken ? parseMockToken(token.refreshToken, 'refresh') : null;
+  if (demoToken) {
+    console.log('Refreshing demo access token');
+    return { ...token, ...createDemoTokens(demoToken.userId) };
+  }
+
   try {
     console.log('Refreshing access token...');
-    const response = await fetch('https://accounts.spotify.com/api/token', {
+    const response = await fetch(`${SPOTIFY_ACCOUNTS_BASE_URL}/api/token`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -48,13 +66,33 @@ const handler = NextAuth({
       clientId: process.env.SPOTIFY_CLIENT_ID!,
       clientSecret: process.env.SPOTIFY_CLIENT_SECRET!,
       authorization: {
-        url: 'https://accounts.spotify.com/authorize',
+        url: `${SPOTIFY_ACCOUNTS_BASE_URL}/authorize`,
         params: {
           scope: scopes.join(' '),
           show_dialog: true,
         },
       },
+      token: `${SPOTIFY_ACCOUNTS_BASE_URL}/api/token`,
+      userinfo: `${SPOTIFY_API_BASE_URL}/me`,
     }),
+    // Only offered when NEXT_PUBLIC_DEMO_MODE=true: signs in as a fixture user
+    ...(DEMO_MODE
+      ? [
+          CredentialsProvider({
+            id: 'demo',
+            name: 'Demo',
+            credentials: {
+              userId: { label: 'Fixture user', type: 'text' },
+            },
+            async authorize(credentials) {
+              const userId = credentials?.userId || DEMO_USER_ID;
+              const user = getMockUsers().find(candidate => candidate.id === userId);
+              if (!user) return null;
+              return { id: user.id, name: user.display_name, email: user.email, image: null };
+            },
+          }),
+        ]
+      : []),
   ],
   secret: process.env.NEXTAUTH_SECRET,
   session: {
@@ -64,6 +102,11 @@ const handler = NextAuth({
     async jwt({ token, account, user }) {
       // Initial sign in
       if (account && user) {
+        if (account.provider === 'demo') {
+          console.log('Demo sign in, using fixture tokens');
+          return { ...createDemoTokens(user.id), user };
+        }
+
         console.log('Initial sign in, setting token');
         const expiresIn = account.expires_in ? Number(account.expires_in) : 3600;
         return {
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { addFeedback, readFeedback, removeFeedback } from '@/lib/feedback-store';
+import { TrackFeedback } from '@/lib/feedback';
+import { TUNABLE_ATTRIBUTES } from '@/lib/recommendation-tuning';
+
+export const dynamic = 'force-dynamic';
+
+// Feedback is stored per Spotify user, taken from the session token
+async function getUserId(request: NextRequest): Promise<string | null> {
+  const token = await getToken({ req: request });
+  return token?.user?.id || null;
+}
+
+function unauthorized() {
+  return NextResponse.json({ error: 'Sign in to rate recommendations' }, { status: 401 });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Only numeric tunable attributes are kept; anything else in `features` is dropped
+function parseFeatures(value: unknown): TrackFeedback['features'] {
+  const features: TrackFeedback['features'] = {};
+  if (!isRecord(value)) return features;
+  TUNABLE_ATTRIBUTES.forEach(({ key }) => {
+    const feature = value[key];
+    if (typeof feature === 'number' && Number.isFinite(feature)) features[key] = feature;
+  });
+  return features;
+}
+
+function parseArtists(value: unknown): TrackFeedback['artists'] {
+  if (!Array.isArray(value)) return [];
+  return value.map(artist => ({
+    id: isRecord(artist) && typeof artist.id === 'string' ? artist.id : null,
+    name: isRecord(artist) ? String(artist.name || '') : ''
+  }));
+}
+
+// List the user's feedback, newest first
+export async function GET(request: NextRequest) {
+  const userId = await getUserId(request);
+  if (!userId) return unauthorized();
+  return NextResponse.json({ feedback: await readFeedback(userId) });
+}
+
+// Rate a track: { trackId, rating: "like" | "dislike", name, artists, genres, features }
+export async function POST(request: NextRequest) {
+  const userId = await getUserId(request);
+  if (!userId) return unauthorized();
+
+  let entry: unknown;
+  try {
+    entry = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Body must be a JSON feedback entry' }, { status: 400 });
+  }
+
+  if (!isRecord(entry) || typeof entry.trackId !== 'string' || (entry.rating !== 'like' && entry.rating !== 'dislike')) {
+    return NextResponse.json({ error: 'Feedback needs a string `trackId` and a `rating` of "like" or "dislike"' }, { status: 400 });
+  }
+
+  const feedback = await addFeedback(userId, {
+    trackId: entry.trackId,
+    rating: entry.rating,
+    name: String(entry.name || ''),
+    artists: parseArtists(entry.artists),
+    genres: Array.isArray(entry.genres) ? entry.genres.map(String) : [],
+    features: parseFeatures(entry.features)
+  });
+  return NextResponse.json({ feedback });
+}
+
+// Remove one rating with ?trackId=, or clear the whole history
+export async function DELETE(request: NextRequest) {
+  const userId = await getUserId(request);
+  if (!userId) return unauthorized();
+
+  const trackId = request.nextUrl.searchParams.get('trackId') || undefined;
+  return NextResponse.json({ feedback: await removeFeedback(userId, trackId) });
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { scopes } from '@/lib/spotify';
+import { createMockToken, getMockTokenTtl, getMockUsers, parseMockToken } from '@/lib/mock-spotify/handler';
+import { isMockServerEnabled, mockServerDisabledResponse } from '@/lib/mock-spotify/server';
+
+export const dynamic = 'force-dynamic';
+
+const invalidGrant = (description: string) =>
+  NextResponse.json({ error: 'invalid_grant', error_description: description }, { status: 400 });
+
+// Token endpoint for the authorization_code and refresh_token grants.
+// Client credentials are not checked.
+export async function POST(request: NextRequest) {
+  if (!isMockServerEnabled()) return mockServerDisabledResponse();
+
+  const form = new URLSearchParams(await request.text());
+  const grantType = form.get('grant_type');
+  let userId: string | undefined;
+
+  if (grantType === 'authorization_code') {
+    const [prefix, codeUserId] = (form.get('code') || '').split('.');
+    if (prefix !== 'mock-code') return invalidGrant('Invalid authorization code');
+    userId = codeUserId;
+  } else if (grantType === 'refresh_token') {
+    userId = parseMockToken(form.get('refresh_token') || '', 'refresh')?.userId;
+    if (!userId) return invalidGrant('Invalid refresh token');
+  } else {
+    return NextResponse.json({ error: 'unsupported_grant_type' }, { status: 400 });
+  }
+
+  if (!getMockUsers().some(user => user.id === userId)) {
+    return invalidGrant(`Unknown mock user: ${userId}`);
+  }
+
+  return NextResponse.json({
+    access_token: createMockToken(userId),
+    token_type: 'Bearer',
+    expires_in: getMockTokenTtl(),
+    refresh_token: createMockToken(userId, 'refresh'),
+    scope: scopes.join(' '),
+  });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMockUsers } from '@/lib/mock-spotify/handler';
+import { isMockServerEnabled, mockServerDisabledResponse } from '@/lib/mock-spotify/server';
+
+export const dynamic = 'force-dynamic';
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// Stand-in for Spotify's consent screen: pick a fixture user and get sent
+// back to the app with an authorization code for them.
+export async function GET(request: NextRequest) {
+  if (!isMockServerEnabled()) return mockServerDisabledResponse();
+
+  const redirectUri = request.nextUrl.searchParams.get('redirect_uri');
+  const state = request.nextUrl.searchParams.get('state');
+  if (!redirectUri) {
+    return NextResponse.json({ error: 'invalid_request', error_description: 'Missing redirect_uri' }, { status: 400 });
+  }
+
+  const links = getMockUsers().map(user => {
+    const target = new URL(redirectUri);
+    target.searchParams.set('code', `mock-code.${user.id}`);
+    if (state) target.searchParams.set('state', state);
+    return `<li><a href="${escapeHtml(target.toString())}"><strong>${escapeHtml(user.display_name)}</strong></a><br><span>${escapeHtml(user.description)}</span></li>`;
+  });
+
+  const html = `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>Mock Spotify login</title>
+    <style>
+      body { background: #111827; color: #f3f4f6; font-family: system-ui, sans-serif; max-width: 32rem; margin: 4rem auto; }
+      li { margin-bottom: 1rem; }
+      a { color: #c084fc; }
+      span { color: #9ca3af; font-size: 0.9rem; }
+    </style>
+  </head>
+  <body>
+    <h1>Mock Spotify login</h1>
+    <p>Choose a fixture user to sign in as:</p>
+    <ul>${links.join('')}</ul>
+  </body>
+</html>`;
+
+  return new NextResponse(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMockFailures, resetMockState, setMockFailures } from '@/lib/mock-spotify/handler';
+import { isMockServerEnabled, mockServerDisabledResponse } from '@/lib/mock-spotify/server';
+
+export const dynamic = 'force-dynamic';
+
+// Inspect the injected failure rules
+export async function GET() {
+  if (!isMockServerEnabled()) return mockServerDisabledResponse();
+  return NextResponse.json({ failures: getMockFailures() });
+}
+
+// Replace the injected failure rules, e.g.
+// [{ "path": "/audio-features", "status": 429, "retryAfter": 2, "times": 3 }]
+export async function PUT(request: NextRequest) {
+  if (!isMockServerEnabled()) return mockServerDisabledResponse();
+
+  let rules: unknown;
+  try {
+    rules = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Body must be a JSON array of failure rules' }, { status: 400 });
+  }
+
+  const list = Array.isArray(rules) ? rules : [rules];
+  const invalid = list.find(rule => !rule || typeof rule.path !== 'string' || typeof rule.status !== 'number');
+  if (invalid) {
+    return NextResponse.json({ error: 'Each rule needs a string `path` and numeric `status`' }, { status: 400 });
+  }
+
+  setMockFailures(list);
+  return NextResponse.json({ failures: getMockFailures() });
+}
+
+// Clear failures; with ?reset=true also restore fixture playlists
+export async function DELETE(request: NextRequest) {
+  if (!isMockServerEnabled()) return mockServerDisabledResponse();
+
+  if (request.nextUrl.searchParams.get('reset') === 'true') {
+    resetMockState();
+  }
+  setMockFailures([]);
+  return NextResponse.json({ failures: [] });
+}
@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+import { handleMockSpotifyRequest } from '@/lib/mock-spotify/handler';
+import { isMockServerEnabled, mockServerDisabledResponse, toNextResponse } from '@/lib/mock-spotify/server';
+
+export const dynamic = 'force-dynamic';
+
+async function handler(request: NextRequest, { params }: { params: { path: string[] } }) {
+  if (!isMockServerEnabled()) return mockServerDisabledResponse();
+
+  const text = await request.text();
+  let body: unknown;
+  try {
+    body = text ? JSON.parse(text) : undefined;
+  } catch {
+    body = text;
+  }
+
+  const authorization = request.headers.get('authorization');
+  const result = handleMockSpotifyRequest({
+    method: request.method,
+    path: `/${params.path.map(encodeURIComponent).join('/')}`,
+    searchParams: request.nextUrl.searchParams,
+    accessToken: authorization ? authorization.replace(/^Bearer\s+/i, '') : null,
+    body,
+    baseUrl: `${request.nextUrl.origin}/api/mock-spotify/v1`,
+  });
+
+  return toNextResponse(result);
+}
+
+export { handler as GET, handler as POST, handler as PUT, handler as DELETE };
@@ -1,22 +1,32 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useSession } from 'next-auth/react';
 import { motion } from 'framer-motion';
-import { getAvailableGenres, getRecommendations } from '@/lib/spotify';
+import { getAvailableGenres, getFreshRecommendations, isAbortError } from '@/lib/spotify';
+import { RecommendationTuning } from '@/lib/recommendation-tuning';
+import { ExclusionOptions, ExclusionReport } from '@/lib/recommendation-exclusions';
+import AdvancedTuningPanel from '@/components/AdvancedTuningPanel';
+import ExclusionControls from '@/components/ExclusionControls';
+import SavePlaylist from '@/components/SavePlaylist';
+import { FeedbackButtons, useTrackFeedback } from '@/components/TrackFeedback';
+import { PreviewButton } from '@/components/PreviewPlayer';
 import Image from 'next/image';
 import { FaMusic, FaSpinner, FaRandom } from 'react-icons/fa';
 
 interface Track {
   id: string;
   name: string;
-  artists: { name: string }[];
+  artists: { id: string; name: string }[];
   album: {
     images: { url: string }[];
   };
   external_urls: {
     spotify: string;
   };
+  preview_url?: string | null;
+  // Set on tracks picked by the local recommender
+  source?: 'local';
 }
 
 // Define genre categories for better organization with proper typing
@@ -42,11 +52,18 @@ export default function GenreExplorer() {
   const [activeCategory, setActiveCategory] = useState<string | null>(null);
   const [categorizedGenres, setCategorizedGenres] = useState<Record<string, string[]>>(genreCategories);
   const [obscurityLevel, setObscurityLevel] = useState(50);
+  const [tuning, setTuning] = useState<RecommendationTuning>({});
+  const [exclude, setExclude] = useState<ExclusionOptions>({ saved: true, topTracks: true });
+  const [exclusionReport, setExclusionReport] = useState<ExclusionReport | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+  const feedbackState = useTrackFeedback();
 
   // Fetch available genres when component mounts
   useEffect(() => {
     if (status === 'authenticated' && session?.accessToken) {
-      fetchGenres();
+      const controller = new AbortController();
+      fetchGenres(controller.signal);
+      return () => controller.abort();
     }
   }, [session, status]);
 
@@ -58,12 +75,12 @@ export default function GenreExplorer() {
   }, [availableGenres]);
 
   // Fetch available genres from Spotify
-  const fetchGenres = async () => {
+  const fetchGenres = async (signal: AbortSignal) => {
     if (!session?.accessToken) return;
     
     setLoading(true);
     try {
-      const genres = await getAvailableGenres(session.accessToken);
+      const genres = await getAvailableGenres(session.accessToken, signal);
       setAvailableGenres(genres);
       
       // Set some default selected genres
@@ -73,10 +90,11 @@ export default function GenreExplorer() {
         setSelectedGenres([genres[0]]);
       }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error fetching genres:', error);
       setError('Failed to load genres. Please try again later.');
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
@@ -152,28 +170,44 @@ export default function GenreExplorer() {
       return;
     }
     
+    // Cancel the request for the previous genre selection
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    const { signal } = controller;
+    
     setLoading(true);
     setError(null);
     
     try {
-      const tracks = await getRecommendations(
-        session.accessToken,
-        [], // No seed tracks, using genres instead
-        100 - obscurityLevel, // Target popularity
-        20, // Limit
-        selectedGenres // Selected genres
-      );
+      const { tracks, report } = await getFreshRecommendations(session.accessToken, {
+        seedGenres: selectedGenres,
+        limit: 20,
+        // The obscurity slider sets the popularity target unless tuning overrides it
+        tuning: {
+          ...tuning,
+          popularity: {
+            ...tuning.popularity,
+            target: tuning.popularity?.target ?? 100 - obscurityLevel,
+          },
+        },
+        exclude,
+        feedback: feedbackState.feedback,
+        signal,
+      });
+      setExclusionReport(report);
       
-      if (tracks[0]?.id?.startsWith('fallback-')) {
+      if (tracks.length === 0) {
         setError('Could not get recommendations for these genres. Try different ones.');
       }
       
       setRecommendations(tracks);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error fetching recommendations:', error);
       setError('Failed to get recommendations. Please try again.');
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
@@ -182,7 +216,8 @@ export default function GenreExplorer() {
     if (selectedGenres.length > 0 && session?.accessToken) {
       fetchRecommendations();
     }
-  }, [selectedGenres, obscurityLevel]);
+    return () => requestRef.current?.abort();
+  }, [selectedGenres, obscurityLevel, tuning, exclude]);
 
   if (status === 'unauthenticated') {
     return (
@@ -266,6 +301,16 @@ export default function GenreExplorer() {
             </div>
           </div>
 
+          {/* Advanced tuning */}
+          <AdvancedTuningPanel
+            tuning={tuning}
+            onApply={setTuning}
+            note="A popularity target here overrides the obscurity slider."
+          />
+
+          {/* Known-track exclusions */}
+          <ExclusionControls exclude={exclude} onChange={setExclude} report={exclusionReport} />
+
           {/* Genre categories */}
           <div className="mb-4 border-b border-gray-700">
             <div className="flex overflow-x-auto pb-2 gap-2">
@@ -325,13 +370,27 @@ export default function GenreExplorer() {
             </div>
           )}
 
+          {!loading && recommendations[0]?.source === 'local' && (
+            <p className="mb-4 text-sm text-yellow-300">
+              Spotify&apos;s recommendations aren&apos;t available, so these are tracks from your own library by artists in the selected genres.
+            </p>
+          )}
+
+          {!loading && recommendations.length > 0 && (
+            <SavePlaylist
+              tracks={recommendations}
+              defaultName={`Vibify: ${selectedGenres.join(', ')}`}
+              defaultDescription={`Genre mix of ${selectedGenres.join(', ')}, found with Vibify's Genre Explorer.`}
+            />
+          )}
+
           {loading ? (
             <div className="flex justify-center p-12">
               <FaSpinner className="animate-spin text-4xl text-purple-500" />
             </div>
           ) : (
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-              {recommendations.map((track) => (
+              {recommendations.map((track, index) => (
                 <motion.a
                   key={track.id}
                   href={track.external_urls.spotify}
@@ -348,11 +407,13 @@ export default function GenreExplorer() {
                       fill
                       className="rounded-md object-cover"
                     />
+                    <PreviewButton tracks={recommendations} index={index} className="absolute bottom-2 right-2 z-10" />
                   </div>
                   <h3 className="font-semibold truncate">{track.name}</h3>
                   <p className="text-gray-400 text-sm truncate">
                     {track.artists.map(artist => artist.name).join(', ')}
                   </p>
+                  <FeedbackButtons track={track} state={feedbackState} className="mt-3" />
                 </motion.a>
               ))}
             </div>
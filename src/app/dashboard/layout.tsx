@@ -0,0 +1,10 @@
+import React from 'react';
+import PreviewPlayer from '@/components/PreviewPlayer';
+
+export default function DashboardLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return <PreviewPlayer>{children}</PreviewPlayer>;
+}
@@ -4,22 +4,54 @@ import React, { useEffect, useState } from 'react';
 import { useSession, signIn } from 'next-auth/react';
 import { motion } from 'framer-motion';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
-import { FaCompactDisc, FaGuitar, FaChartLine, FaMusic, FaChartBar, FaListUl, FaHistory, FaKey } from 'react-icons/fa';
-import { getTopTracks, getTrackFeatures, calculateObscurityScore, calculateMoodScore } from '@/lib/spotify';
+import { FaCompactDisc, FaGuitar, FaChartLine, FaMusic, FaChartBar, FaListUl, FaHistory, FaKey, FaTags } from 'react-icons/fa';
+import {
+  getTopTracks,
+  getTopArtists,
+  getTrackFeatures,
+  countArtistGenres,
+  calculateCompositeObscurity,
+  getObscurityBreakdown,
+  calculateMoodScore,
+  isAbortError,
+  SpotifyApiError,
+  SpotifyArtist,
+  ObscurityBreakdown
+} from '@/lib/spotify';
+import {
+  AudioFeatureSource,
+  FeatureHighlights as FeatureHighlightValues,
+  NEUTRAL_FEATURES,
+  averageFeatures,
+  countFeatureSources,
+  featureChartData,
+  featureHighlights
+} from '@/lib/audio-features';
+import { DiversityMetrics, calculateDiversity } from '@/lib/diversity';
+import { MOOD_QUADRANTS, MoodMix, TrackMood, calculateMoodMix, classifyTrackMoods } from '@/lib/mood';
 import Recommendations from './recommendations';
 import GenreExplorer from './genre-explorer';
 import PlaylistAnalyzer from './playlist-analyzer';
 import TimeMachine from './time-machine';
 import TokenTest from './token-test';
+import FeatureSourceSummary from '@/components/FeatureSourceSummary';
+import FeatureHighlights from '@/components/FeatureHighlights';
+import DiversitySummary from '@/components/DiversitySummary';
+import MoodMap from '@/components/MoodMap';
 
 interface MusicStats {
   obscurityScore: number;
+  obscurityBreakdown: ObscurityBreakdown;
   moodScore: number;
+  moods: TrackMood[];
+  moodMix: MoodMix;
   topGenres: { name: string; count: number }[];
+  diversity: DiversityMetrics;
   audioFeatures: {
     name: string;
     value: number;
   }[];
+  featureHighlights: FeatureHighlightValues | null;
 }
 
 // Define the available tabs
@@ -30,10 +62,14 @@ export default function Dashboard() {
   const [stats, setStats] = useState<MusicStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [usingFallbackFeatures, setUsingFallbackFeatures] = useState(false);
+  const [featureSources, setFeatureSources] = useState<Record<AudioFeatureSource, number> | null>(null);
   const [activeTab, setActiveTab] = useState<TabType>('analysis');
 
   useEffect(() => {
+    // Cancel the previous analysis when the session changes or the page unmounts
+    const controller = new AbortController();
+    const { signal } = controller;
+
     async function fetchMusicData() {
       if (session?.accessToken) {
         if (session.error === 'RefreshAccessTokenError') {
@@ -44,9 +80,9 @@ export default function Dashboard() {
 
         try {
           setError(null);
-          setUsingFallbackFeatures(false);
+          setFeatureSources(null);
           console.log('Fetching top tracks...');
-          const topTracks = await getTopTracks(session.accessToken);
+          const topTracks = await getTopTracks(session.accessToken, 'medium_term', 50, signal);
           
           if (!topTracks.length) {
             setError("No top tracks found. Try listening to more music on Spotify!");
@@ -54,12 +90,8 @@ export default function Dashboard() {
             return;
           }
 
-          console.log('Getting track IDs...');
-          const trackIds = topTracks.map((track: any) => track.id);
-          console.log(`Found ${trackIds.length} track IDs`);
-
           console.log('Fetching audio features...');
-          const features = await getTrackFeatures(session.accessToken, trackIds);
+          const features = await getTrackFeatures(session.accessToken, topTracks, signal);
 
           if (!features.length) {
             setError("Couldn't analyze your tracks. Please try again later.");
@@ -67,56 +99,64 @@ export default function Dashboard() {
             return;
           }
 
-          // Check if we're using fallback features
-          if (features[0]?.danceability === 0.5 && 
-              features[0]?.energy === 0.5 && 
-              features[0]?.valence === 0.5) {
-            setUsingFallbackFeatures(true);
-          }
+          // Keep track of which provider answered for each track
+          setFeatureSources(countFeatureSources(features));
 
           console.log('Calculating averages...');
           // Calculate average features
-          const avgFeatures = features.reduce((acc: any, curr: any) => {
-            if (!curr) return acc;
-            return {
-              danceability: acc.danceability + (curr.danceability || 0),
-              energy: acc.energy + (curr.energy || 0),
-              valence: acc.valence + (curr.valence || 0),
-              acousticness: acc.acousticness + (curr.acousticness || 0),
-            };
-          }, { danceability: 0, energy: 0, valence: 0, acousticness: 0 });
+          const avgFeatures = averageFeatures(features) || NEUTRAL_FEATURES;
 
-          const validFeatures = features.filter(f => f !== null).length;
-          if (validFeatures > 0) {
-            Object.keys(avgFeatures).forEach(key => {
-              avgFeatures[key] = avgFeatures[key] / validFeatures;
-            });
-          }
+          const moods = classifyTrackMoods(topTracks, features);
 
           console.log('Calculating obscurity score...');
-          const avgObscurity = topTracks.reduce((acc: number, track: any) => 
-            acc + calculateObscurityScore(track.popularity || 50), 0) / topTracks.length;
+          let obscurity: ObscurityBreakdown;
+          try {
+            obscurity = await getObscurityBreakdown(session.accessToken, topTracks, signal);
+          } catch (error) {
+            if (isAbortError(error)) throw error;
+            // Without artist details the score falls back to track popularity alone
+            console.error('Error fetching artists for obscurity score:', error);
+            obscurity = calculateCompositeObscurity(topTracks, new Map());
+          }
+
+          console.log('Fetching top artists for genres...');
+          let topArtists: SpotifyArtist[];
+          try {
+            topArtists = await getTopArtists(session.accessToken, 'medium_term', 50, signal);
+          } catch (error) {
+            if (isAbortError(error)) throw error;
+            // Without top artists the genre cards are empty, but the rest of the stats still show
+            console.error('Error fetching top artists for genres:', error);
+            topArtists = [];
+          }
+          const genreCounts = countArtistGenres(topArtists);
+          const topGenres = genreCounts
+            .slice(0, 10)
+            .map(genre => ({ name: genre.name, count: genre.value }));
+          const diversity = calculateDiversity({ tracks: topTracks, genres: genreCounts, features });
 
           console.log('Setting stats...');
           setStats({
-            obscurityScore: Math.round(avgObscurity),
+            obscurityScore: obscurity.score,
+            obscurityBreakdown: obscurity,
             moodScore: Math.round(calculateMoodScore(avgFeatures.valence, avgFeatures.energy)),
-            topGenres: [], // To be implemented with artist data
-            audioFeatures: [
-              { name: 'Danceability', value: Math.round(avgFeatures.danceability * 100) },
-              { name: 'Energy', value: Math.round(avgFeatures.energy * 100) },
-              { name: 'Mood', value: Math.round(avgFeatures.valence * 100) },
-              { name: 'Acousticness', value: Math.round(avgFeatures.acousticness * 100) },
-            ],
+            moods,
+            moodMix: calculateMoodMix(moods, topTracks.length),
+            topGenres,
+            diversity,
+            audioFeatures: featureChartData(avgFeatures),
+            featureHighlights: featureHighlights(features),
           });
         } catch (error: any) {
+          if (isAbortError(error)) return;
+
           console.error('Error fetching music data:', error);
           let errorMessage = 'Failed to analyze your music. ';
           
-          if (error.statusCode === 401) {
+          if (error instanceof SpotifyApiError && error.status === 401) {
             errorMessage = 'Your session has expired. Please sign in again.';
             signIn('spotify'); // Automatically redirect to sign in
-          } else if (error.statusCode === 429) {
+          } else if (error instanceof SpotifyApiError && error.status === 429) {
             errorMessage += 'Too many requests. Please try again in a few minutes.';
           } else if (error.message) {
             errorMessage += error.message;
@@ -136,6 +176,8 @@ export default function Dashboard() {
       setLoading(false);
       setError('Please log in to view your music analysis.');
     }
+
+    return () => controller.abort();
   }, [session, status]);
 
   if (loading) {
@@ -237,14 +279,15 @@ export default function Dashboard() {
           </div>
         </div>
 
-        {usingFallbackFeatures && activeTab === 'analysis' && (
+        {featureSources && (featureSources.dataset > 0 || featureSources.fallback > 0) && activeTab === 'analysis' && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             className="max-w-4xl mx-auto mb-8 p-4 bg-yellow-800/50 rounded-lg text-yellow-200"
           >
+            <FeatureSourceSummary sources={featureSources} className="mb-2" />
             <p className="font-medium">
-              Note: Using estimated audio features due to Spotify API restrictions.
+              Note: Some audio features are not from Spotify due to API restrictions.
               This is likely because your app is in Development Mode in the Spotify Developer Dashboard.
             </p>
             <p className="text-sm mt-2">
@@ -270,6 +313,35 @@ export default function Dashboard() {
                 </div>
                 <p className="text-5xl font-bold text-purple-400">{stats?.obscurityScore}%</p>
                 <p className="text-gray-400 mt-2">How unique your music taste is</p>
+
+                {/* Components behind the score */}
+                {stats && (
+                  <div className="mt-4 space-y-3">
+                    {stats.obscurityBreakdown.components.map(component => (
+                      <div key={component.key} title={component.description}>
+                        <div className="flex justify-between text-sm mb-1">
+                          <span className="text-gray-300">
+                            {component.label}
+                            <span className="text-gray-500"> ({Math.round(component.weight * 100)}%)</span>
+                          </span>
+                          <span className="text-purple-300">{component.score}%</span>
+                        </div>
+                        <div className="h-2 bg-gray-700 rounded-full">
+                          <div className="h-2 bg-purple-500 rounded-full" style={{ width: `${component.score}%` }} />
+                        </div>
+                      </div>
+                    ))}
+                    <p className="text-xs text-gray-500">
+                      Weighted by rank across your top {stats.obscurityBreakdown.trackCount} tracks, so your #1 counts most.
+                    </p>
+                    {stats.obscurityBreakdown.mostObscure && (
+                      <p className="text-xs text-gray-400">
+                        Deepest cut: {stats.obscurityBreakdown.mostObscure.name} by {stats.obscurityBreakdown.mostObscure.artist}{' '}
+                        ({stats.obscurityBreakdown.mostObscure.score}%)
+                      </p>
+                    )}
+                  </div>
+                )}
               </motion.div>
 
               <motion.div
@@ -284,6 +356,12 @@ export default function Dashboard() {
                 </div>
                 <p className="text-5xl font-bold text-green-400">{stats?.moodScore}%</p>
                 <p className="text-gray-400 mt-2">Overall mood of your music</p>
+                {stats?.moodMix.dominant && (
+                  <p className="text-sm mt-2" style={{ color: MOOD_QUADRANTS[stats.moodMix.dominant].color }}>
+                    Mostly {MOOD_QUADRANTS[stats.moodMix.dominant].label.toLowerCase()}:{' '}
+                    {MOOD_QUADRANTS[stats.moodMix.dominant].description.toLowerCase()}
+                  </p>
+                )}
               </motion.div>
 
               <motion.div
@@ -296,19 +374,74 @@ export default function Dashboard() {
                   <FaChartLine className="text-3xl text-blue-500" />
                   <h2 className="text-2xl font-semibold">Audio Features</h2>
                 </div>
-                <div className="h-64">
+                <div className="h-80">
                   <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={stats?.audioFeatures}>
-                      <XAxis dataKey="name" />
-                      <YAxis domain={[0, 100]} />
+                    <BarChart data={stats?.audioFeatures} layout="vertical">
+                      <XAxis type="number" domain={[0, 100]} />
+                      <YAxis type="category" dataKey="name" width={100} />
                       <Tooltip />
                       <Bar dataKey="value" fill="#8884d8" />
                     </BarChart>
                   </ResponsiveContainer>
                 </div>
+                {stats?.featureHighlights && (
+                  <FeatureHighlights highlights={stats.featureHighlights} className="mt-2" />
+                )}
               </motion.div>
             </div>
 
+            {stats && stats.topGenres.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ delay: 0.5 }}
+                className="mt-8 p-6 rounded-lg bg-gray-800/50 backdrop-blur-sm"
+              >
+                <div className="flex items-center gap-4 mb-4">
+                  <FaTags className="text-3xl text-pink-500" />
+                  <h2 className="text-2xl font-semibold">Top Genres</h2>
+                </div>
+                <p className="text-gray-400 mb-4">Genres shared by your top 50 artists</p>
+                <div className="h-80">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={stats.topGenres} layout="vertical" margin={{ left: 40 }}>
+                      <XAxis type="number" allowDecimals={false} />
+                      <YAxis type="category" dataKey="name" width={120} />
+                      <Tooltip />
+                      <Bar dataKey="count" name="Artists" fill="#ec4899" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </motion.div>
+            )}
+
+            {stats && (
+              <motion.div
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ delay: 0.55 }}
+                className="mt-8 p-6 rounded-lg bg-gray-800/50 backdrop-blur-sm"
+              >
+                <div className="flex items-center gap-4 mb-4">
+                  <FaGuitar className="text-3xl text-green-500" />
+                  <h2 className="text-2xl font-semibold">Mood Map</h2>
+                </div>
+                <p className="text-gray-400 mb-4">Your top tracks by happiness and intensity</p>
+                <MoodMap moods={stats.moods} mix={stats.moodMix} />
+              </motion.div>
+            )}
+
+            {stats && (
+              <motion.div
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ delay: 0.6 }}
+                className="mt-8"
+              >
+                <DiversitySummary diversity={stats.diversity} />
+              </motion.div>
+            )}
+
             <Recommendations />
           </>
         ) : activeTab === 'genre-explorer' ? (
@@ -3,10 +3,32 @@
 import React, { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { motion } from 'framer-motion';
-import { getUserPlaylists, getTrackFeatures, calculateObscurityScore, calculateMoodScore } from '@/lib/spotify';
+import { getUserPlaylists, getCurrentUser, getPlaylist, getPlaylistTracks, getTrackFeatures, getTrackGenres, distributeTrackGenres, calculateObscurityScore, calculateMoodScore, calculateReleaseDateSummary, isAbortError, UNKNOWN_GENRE } from '@/lib/spotify';
+import {
+  AudioFeatureSource,
+  FeatureHighlights as FeatureHighlightValues,
+  NEUTRAL_FEATURES,
+  averageFeatures,
+  countFeatureSources,
+  featureChartData,
+  featureHighlights
+} from '@/lib/audio-features';
+import { DiversityMetrics, calculateDiversity } from '@/lib/diversity';
+import { MoodMix, TrackMood, calculateMoodMix, classifyTrackMoods } from '@/lib/mood';
+import { PlaylistHealth, scanPlaylistHealth } from '@/lib/playlist-health';
+import { OutlierAnalysis, OutlierCandidate, findOutliers } from '@/lib/outliers';
+import FeatureSourceSummary from '@/components/FeatureSourceSummary';
+import FeatureHighlights from '@/components/FeatureHighlights';
+import DiversitySummary from '@/components/DiversitySummary';
+import MoodMap from '@/components/MoodMap';
+import PlaylistSequencer, { PlaylistSequencerTrack } from '@/components/PlaylistSequencer';
+import PlaylistComparison from '@/components/PlaylistComparison';
+import PlaylistHealthScanner from '@/components/PlaylistHealthScanner';
+import PlaylistOutliers from '@/components/PlaylistOutliers';
+import type { ReleasedTrack } from '@/lib/spotify';
 import Image from 'next/image';
 import { FaSpinner, FaChartPie, FaMusic, FaExternalLinkAlt } from 'react-icons/fa';
-import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar } from 'recharts';
+import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar, BarChart, Bar, XAxis, YAxis } from 'recharts';
 
 interface Playlist {
   id: string;
@@ -15,47 +37,78 @@ interface Playlist {
   images: { url: string }[];
   tracks: { total: number };
   external_urls: { spotify: string };
-  owner: { display_name: string };
+  owner: { id: string; display_name: string };
+  collaborative?: boolean;
 }
 
 interface PlaylistAnalysis {
   obscurityScore: number;
   moodScore: number;
+  moods: TrackMood[];
+  moodMix: MoodMix;
   danceabilityScore: number;
   energyScore: number;
   acousticnessScore: number;
   genreDistribution: { name: string; value: number }[];
+  diversity: DiversityMetrics;
   audioFeatures: { name: string; value: number }[];
+  featureHighlights: FeatureHighlightValues | null;
   decadeDistribution: { name: string; value: number }[];
+  yearDistribution: { name: string; value: number }[];
+  medianReleaseYear: number | null;
+  oldestTrack: ReleasedTrack | null;
+  newestTrack: ReleasedTrack | null;
+  undatedTracks: number;
+  // Snapshot the tracks were loaded from, so a reorder applies to the same version
+  snapshotId: string | null;
+  sequencerTracks: PlaylistSequencerTrack[];
+  totalItems: number;
+  health: PlaylistHealth;
+  outliers: OutlierAnalysis;
+  featureSources: Record<AudioFeatureSource, number>;
 }
 
 const COLORS = ['#8884d8', '#83a6ed', '#8dd1e1', '#82ca9d', '#a4de6c', '#d0ed57', '#ffc658'];
 
+// Number of genres shown individually in the genre chart
+const MAX_CHART_GENRES = 6;
+
 export default function PlaylistAnalyzer() {
   const { data: session, status } = useSession();
   const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  // Signed-in user's ID, to tell which playlists they can edit
+  const [userId, setUserId] = useState<string | null>(null);
   const [selectedPlaylist, setSelectedPlaylist] = useState<Playlist | null>(null);
   const [playlistAnalysis, setPlaylistAnalysis] = useState<PlaylistAnalysis | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [fetchingPlaylists, setFetchingPlaylists] = useState(false);
+  const [eraView, setEraView] = useState<'decades' | 'years'>('decades');
+  const [mode, setMode] = useState<'analyze' | 'compare'>('analyze');
+  // Bumped to reload the analysis after the playlist is changed on Spotify
+  const [refreshCount, setRefreshCount] = useState(0);
+  const [notice, setNotice] = useState<{ message: string; failed?: boolean } | null>(null);
 
   // Fetch user playlists when component mounts
   useEffect(() => {
     if (status === 'authenticated' && session?.accessToken) {
-      fetchPlaylists();
+      const controller = new AbortController();
+      fetchPlaylists(controller.signal);
+      return () => controller.abort();
     }
   }, [session, status]);
 
   // Fetch user playlists from Spotify
-  const fetchPlaylists = async () => {
+  const fetchPlaylists = async (signal: AbortSignal) => {
     if (!session?.accessToken) return;
     
     setFetchingPlaylists(true);
     setError(null);
     
     try {
-      const userPlaylists = await getUserPlaylists(session.accessToken);
+      const user = await getCurrentUser(session.accessToken, signal);
+      const userPlaylists = await getUserPlaylists(session.accessToken, undefined, signal);
+      setUserId(user.id);
       setPlaylists(userPlaylists as Playlist[]);
       
       // Select the first playlist by default if available
@@ -63,15 +116,16 @@ export default function PlaylistAnalyzer() {
         setSelectedPlaylist(userPlaylists[0] as Playlist);
       }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error fetching playlists:', error);
       setError('Failed to load your playlists. Please try again later.');
     } finally {
-      setFetchingPlaylists(false);
+      if (!signal.aborted) setFetchingPlaylists(false);
     }
   };
 
   // Analyze the selected playlist
-  const analyzePlaylist = async (playlist: Playlist) => {
+  const analyzePlaylist = async (playlist: Playlist, signal: AbortSignal) => {
     if (!session?.accessToken || !playlist) return;
     
     setLoading(true);
@@ -79,20 +133,11 @@ export default function PlaylistAnalyzer() {
     setSelectedPlaylist(playlist);
     
     try {
-      // Fetch the playlist tracks
-      const response = await fetch(`https://api.spotify.com/v1/playlists/${playlist.id}/tracks?limit=50`, {
-        headers: {
-          'Authorization': `Bearer ${session.accessToken}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch playlist tracks: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      const tracks = data.items.filter((item: any) => item.track);
+      // Fetch the current snapshot first, then every page of the playlist tracks,
+      // with is_playable for the user's market
+      const details = await getPlaylist(session.accessToken, playlist.id, signal);
+      const items = await getPlaylistTracks(session.accessToken, playlist.id, undefined, signal, 'from_token');
+      const tracks = items.filter((item: any) => item.track);
       
       if (tracks.length === 0) {
         setError('This playlist has no tracks or they could not be accessed.');
@@ -100,95 +145,140 @@ export default function PlaylistAnalyzer() {
         return;
       }
       
-      // Extract track IDs and get audio features
-      const trackIds = tracks.map((item: any) => item.track.id);
-      const features = await getTrackFeatures(session.accessToken, trackIds);
+      // Get audio features (local files have no ID and are skipped)
+      const features = await getTrackFeatures(
+        session.accessToken,
+        tracks.map((item: any) => item.track),
+        signal
+      );
       
       // Calculate average features
-      const avgFeatures = features.reduce((acc: any, curr: any) => {
-        if (!curr) return acc;
-        return {
-          danceability: acc.danceability + (curr.danceability || 0),
-          energy: acc.energy + (curr.energy || 0),
-          valence: acc.valence + (curr.valence || 0),
-          acousticness: acc.acousticness + (curr.acousticness || 0),
-        };
-      }, { danceability: 0, energy: 0, valence: 0, acousticness: 0 });
-      
-      const validFeatures = features.filter(f => f !== null).length;
-      if (validFeatures > 0) {
-        Object.keys(avgFeatures).forEach(key => {
-          avgFeatures[key] = avgFeatures[key] / validFeatures;
-        });
-      }
+      const avgFeatures = averageFeatures(features) || NEUTRAL_FEATURES;
       
       // Calculate obscurity score
       const avgObscurity = tracks.reduce((acc: number, item: any) => 
         acc + calculateObscurityScore(item.track.popularity || 50), 0) / tracks.length;
       
-      // Create mock genre distribution (since we can't easily get genres for each track)
-      const mockGenres = [
-        { name: 'Pop', value: Math.floor(Math.random() * 40) + 10 },
-        { name: 'Rock', value: Math.floor(Math.random() * 30) + 5 },
-        { name: 'Hip-Hop', value: Math.floor(Math.random() * 25) + 5 },
-        { name: 'Electronic', value: Math.floor(Math.random() * 20) + 5 },
-        { name: 'R&B', value: Math.floor(Math.random() * 15) + 5 },
-        { name: 'Other', value: Math.floor(Math.random() * 10) + 5 }
-      ];
-      
+      // Get each track's genres from its artists, and the playlist's genre distribution
+      const trackGenres = await getTrackGenres(
+        session.accessToken,
+        tracks.map((item: any) => item.track),
+        signal
+      );
+      const genreCounts = distributeTrackGenres(trackGenres);
+
+      // Keep the biggest genres and roll the long tail into "Other"
+      const knownGenres = genreCounts.filter(genre => genre.name !== UNKNOWN_GENRE);
+      const unknownGenre = genreCounts.find(genre => genre.name === UNKNOWN_GENRE);
+      const chartGenres = knownGenres.slice(0, MAX_CHART_GENRES);
+      const otherValue = knownGenres
+        .slice(MAX_CHART_GENRES)
+        .reduce((sum, genre) => sum + genre.value, 0);
+      if (otherValue > 0) {
+        chartGenres.push({ name: 'Other', value: otherValue });
+      }
+      if (unknownGenre) {
+        chartGenres.push(unknownGenre);
+      }
+
       // Normalize genre distribution to sum to 100
-      const totalGenreValue = mockGenres.reduce((sum, genre) => sum + genre.value, 0);
-      const normalizedGenres = mockGenres.map(genre => ({
+      const totalGenreValue = chartGenres.reduce((sum, genre) => sum + genre.value, 0);
+      const normalizedGenres = chartGenres.map(genre => ({
         name: genre.name,
-        value: Math.round((genre.value / totalGenreValue) * 100)
+        value: totalGenreValue > 0 ? Math.round((genre.value / totalGenreValue) * 100) : 0
       }));
       
-      // Create mock decade distribution
-      const mockDecades = [
-        { name: '2020s', value: Math.floor(Math.random() * 40) + 10 },
-        { name: '2010s', value: Math.floor(Math.random() * 30) + 20 },
-        { name: '2000s', value: Math.floor(Math.random() * 20) + 5 },
-        { name: '1990s', value: Math.floor(Math.random() * 15) + 5 },
-        { name: 'Older', value: Math.floor(Math.random() * 10) + 5 }
-      ];
-      
-      // Normalize decade distribution to sum to 100
-      const totalDecadeValue = mockDecades.reduce((sum, decade) => sum + decade.value, 0);
-      const normalizedDecades = mockDecades.map(decade => ({
-        name: decade.name,
-        value: Math.round((decade.value / totalDecadeValue) * 100)
-      }));
+      // Tracks the sequencer can order and the outlier check can compare, with their playlist positions
+      const featuresById = new Map(features.map(feature => [feature.id, feature]));
+      const genresById = new Map<string, string[]>(
+        tracks.map((item: any, i: number) => [item.track.id, trackGenres[i]])
+      );
+      const sequencerTracks: PlaylistSequencerTrack[] = [];
+      const outlierCandidates: OutlierCandidate[] = [];
+      items.forEach((item: any, position: number) => {
+        const feature = item.track?.id && featuresById.get(item.track.id);
+        if (!feature || item.is_local) return;
+        const track = {
+          id: item.track.id,
+          name: item.track.name,
+          artist: item.track.artists?.[0]?.name || 'Unknown artist',
+          features: feature,
+          position
+        };
+        sequencerTracks.push(track);
+        outlierCandidates.push({
+          ...track,
+          // A relinked track is a regional copy; moving it removes the `linked_from` track from the playlist
+          uri: item.track.linked_from?.uri || item.track.uri || `spotify:track:${item.track.id}`,
+          genres: genresById.get(item.track.id) || []
+        });
+      });
+
+      // Place each track on the valence/energy plane
+      const moods = classifyTrackMoods(tracks.map((item: any) => item.track), features);
+
+      // Get the decade and year distribution from album release dates
+      const releaseSummary = calculateReleaseDateSummary(tracks.map((item: any) => item.track));
       
       // Set the playlist analysis
       setPlaylistAnalysis({
         obscurityScore: Math.round(avgObscurity),
         moodScore: Math.round(calculateMoodScore(avgFeatures.valence, avgFeatures.energy)),
+        moods,
+        moodMix: calculateMoodMix(moods, tracks.length),
         danceabilityScore: Math.round(avgFeatures.danceability * 100),
         energyScore: Math.round(avgFeatures.energy * 100),
         acousticnessScore: Math.round(avgFeatures.acousticness * 100),
         genreDistribution: normalizedGenres,
-        audioFeatures: [
-          { name: 'Danceability', value: Math.round(avgFeatures.danceability * 100) },
-          { name: 'Energy', value: Math.round(avgFeatures.energy * 100) },
-          { name: 'Mood', value: Math.round(avgFeatures.valence * 100) },
-          { name: 'Acousticness', value: Math.round(avgFeatures.acousticness * 100) },
-        ],
-        decadeDistribution: normalizedDecades
+        diversity: calculateDiversity({
+          tracks: tracks.map((item: any) => item.track),
+          genres: knownGenres,
+          features
+        }),
+        audioFeatures: featureChartData(avgFeatures),
+        featureHighlights: featureHighlights(features),
+        decadeDistribution: releaseSummary.decadeDistribution,
+        yearDistribution: releaseSummary.yearDistribution,
+        medianReleaseYear: releaseSummary.medianYear,
+        oldestTrack: releaseSummary.oldestTrack,
+        newestTrack: releaseSummary.newestTrack,
+        undatedTracks: releaseSummary.undatedTracks,
+        snapshotId: details?.snapshot_id ?? null,
+        sequencerTracks,
+        totalItems: items.length,
+        health: scanPlaylistHealth(items),
+        outliers: findOutliers(outlierCandidates),
+        featureSources: countFeatureSources(features)
       });
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error analyzing playlist:', error);
       setError('Failed to analyze this playlist. Please try again later.');
     } finally {
-      setLoading(false);
+      // A newer analysis owns the loading state once this one is cancelled
+      if (!signal.aborted) setLoading(false);
     }
   };
 
-  // When a playlist is selected, analyze it
+  // When a playlist is selected, analyze it and cancel the previous analysis
   useEffect(() => {
     if (selectedPlaylist) {
-      analyzePlaylist(selectedPlaylist);
+      const controller = new AbortController();
+      analyzePlaylist(selectedPlaylist, controller.signal);
+      return () => controller.abort();
     }
-  }, [selectedPlaylist]);
+  }, [selectedPlaylist, refreshCount]);
+
+  // Notices are about the playlist they were shown for
+  useEffect(() => {
+    setNotice(null);
+  }, [selectedPlaylist?.id]);
+
+  // Reload the analysis once the playlist has changed on Spotify
+  const handlePlaylistChanged = (message: string, failed = false) => {
+    setNotice({ message, failed });
+    setRefreshCount(count => count + 1);
+  };
 
   if (status === 'unauthenticated') {
     return (
@@ -206,12 +296,34 @@ export default function PlaylistAnalyzer() {
         className="max-w-6xl mx-auto"
       >
         <h1 className="text-4xl font-bold mb-6 text-center">Playlist Analyzer</h1>
-        <p className="text-center text-gray-300 mb-8">
+        <p className="text-center text-gray-300 mb-4">
           Select a playlist to see detailed insights and statistics
         </p>
 
+        {/* Mode */}
+        <div className="flex justify-center gap-1 mb-8">
+          {(['analyze', 'compare'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-4 py-1 rounded-full capitalize ${
+                mode === option
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+
+        {/* Playlist Comparison */}
+        {mode === 'compare' && !fetchingPlaylists && (
+          <PlaylistComparison playlists={playlists} initialPlaylistId={selectedPlaylist?.id} />
+        )}
+
         {/* Playlist Selection */}
-        <div className="mb-8">
+        <div className={mode === 'compare' ? 'hidden' : 'mb-8'}>
           <h2 className="text-2xl font-semibold mb-4">Your Playlists</h2>
           
           {fetchingPlaylists ? (
@@ -253,7 +365,7 @@ export default function PlaylistAnalyzer() {
         </div>
 
         {/* Playlist Analysis */}
-        {selectedPlaylist && (
+        {mode === 'analyze' && selectedPlaylist && (
           <div className="mt-8 bg-gray-800/30 rounded-lg p-6">
             <div className="flex items-start gap-6 mb-6">
               <div className="relative w-32 h-32 flex-shrink-0">
@@ -294,6 +406,24 @@ export default function PlaylistAnalyzer() {
               </div>
             ) : playlistAnalysis && (
               <div>
+                {notice && (
+                  <div
+                    className={`p-3 mb-4 rounded-lg border ${
+                      notice.failed ? 'bg-red-900/30 border-red-700' : 'bg-green-900/30 border-green-700'
+                    }`}
+                  >
+                    <p className={`text-sm ${notice.failed ? 'text-red-300' : 'text-green-300'}`}>{notice.message}</p>
+                  </div>
+                )}
+                {playlistAnalysis.health.counts.unavailable > 0 && (
+                  <p className="text-gray-400 text-sm mb-4">
+                    {playlistAnalysis.health.counts.unavailable}{' '}
+                    {playlistAnalysis.health.counts.unavailable === 1 ? 'track has' : 'tracks have'} been removed from
+                    Spotify and {playlistAnalysis.health.counts.unavailable === 1 ? 'is' : 'are'} left out of this
+                    analysis. See Playlist Health below.
+                  </p>
+                )}
+
                 {/* Playlist Stats */}
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
                   <div className="bg-gray-800/50 rounded-lg p-4">
@@ -373,7 +503,8 @@ export default function PlaylistAnalyzer() {
 
                   {/* Audio Features */}
                   <div className="bg-gray-800/50 rounded-lg p-4">
-                    <h3 className="text-lg font-semibold mb-4">Audio Features</h3>
+                    <h3 className="text-lg font-semibold mb-1">Audio Features</h3>
+                    <FeatureSourceSummary sources={playlistAnalysis.featureSources} className="mb-3" />
                     <div className="h-64">
                       <ResponsiveContainer width="100%" height="100%">
                         <RadarChart cx="50%" cy="50%" outerRadius="80%" data={playlistAnalysis.audioFeatures}>
@@ -385,36 +516,168 @@ export default function PlaylistAnalyzer() {
                         </RadarChart>
                       </ResponsiveContainer>
                     </div>
+                    {playlistAnalysis.featureHighlights && (
+                      <FeatureHighlights highlights={playlistAnalysis.featureHighlights} className="mt-2" />
+                    )}
                   </div>
 
                   {/* Decade Distribution */}
                   <div className="bg-gray-800/50 rounded-lg p-4">
-                    <h3 className="text-lg font-semibold mb-4">Era Distribution</h3>
-                    <div className="h-64">
-                      <ResponsiveContainer width="100%" height="100%">
-                        <PieChart>
-                          <Pie
-                            data={playlistAnalysis.decadeDistribution}
-                            cx="50%"
-                            cy="50%"
-                            labelLine={false}
-                            label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%`}
-                            outerRadius={80}
-                            fill="#8884d8"
-                            dataKey="value"
+                    <div className="flex justify-between items-center mb-4">
+                      <h3 className="text-lg font-semibold">Era Distribution</h3>
+                      <div className="flex gap-1 text-sm">
+                        {(['decades', 'years'] as const).map(view => (
+                          <button
+                            key={view}
+                            onClick={() => setEraView(view)}
+                            className={`px-3 py-1 rounded-full capitalize ${
+                              eraView === view
+                                ? 'bg-purple-600 text-white'
+                                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                            }`}
                           >
-                            {playlistAnalysis.decadeDistribution.map((entry, index) => (
-                              <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                            ))}
-                          </Pie>
-                          <Tooltip />
-                          <Legend />
-                        </PieChart>
-                      </ResponsiveContainer>
+                            {view}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    {playlistAnalysis.decadeDistribution.length === 0 ? (
+                      <div className="h-64 flex items-center justify-center">
+                        <p className="text-gray-400">No release dates available for this playlist.</p>
+                      </div>
+                    ) : (
+                      <div className="h-64">
+                        <ResponsiveContainer width="100%" height="100%">
+                          {eraView === 'decades' ? (
+                            <PieChart>
+                              <Pie
+                                data={playlistAnalysis.decadeDistribution}
+                                cx="50%"
+                                cy="50%"
+                                labelLine={false}
+                                label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%`}
+                                outerRadius={80}
+                                fill="#8884d8"
+                                dataKey="value"
+                              >
+                                {playlistAnalysis.decadeDistribution.map((entry, index) => (
+                                  <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                                ))}
+                              </Pie>
+                              <Tooltip />
+                              <Legend />
+                            </PieChart>
+                          ) : (
+                            <BarChart data={playlistAnalysis.yearDistribution}>
+                              <XAxis dataKey="name" />
+                              <YAxis allowDecimals={false} />
+                              <Tooltip />
+                              <Bar dataKey="value" name="Tracks" fill="#8884d8" />
+                            </BarChart>
+                          )}
+                        </ResponsiveContainer>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Release Date Summary */}
+                  <div className="bg-gray-800/50 rounded-lg p-4">
+                    <h3 className="text-lg font-semibold mb-4">Release Dates</h3>
+                    <div className="space-y-4">
+                      <div>
+                        <p className="text-gray-400 text-sm">Median release year</p>
+                        <p className="text-4xl font-bold text-purple-400">
+                          {playlistAnalysis.medianReleaseYear ?? '—'}
+                        </p>
+                      </div>
+                      {playlistAnalysis.oldestTrack && (
+                        <div>
+                          <p className="text-gray-400 text-sm">Oldest track</p>
+                          <p className="font-medium truncate">{playlistAnalysis.oldestTrack.name}</p>
+                          <p className="text-gray-400 text-sm truncate">
+                            {playlistAnalysis.oldestTrack.artist} • {playlistAnalysis.oldestTrack.releaseDate}
+                          </p>
+                        </div>
+                      )}
+                      {playlistAnalysis.newestTrack && (
+                        <div>
+                          <p className="text-gray-400 text-sm">Newest track</p>
+                          <p className="font-medium truncate">{playlistAnalysis.newestTrack.name}</p>
+                          <p className="text-gray-400 text-sm truncate">
+                            {playlistAnalysis.newestTrack.artist} • {playlistAnalysis.newestTrack.releaseDate}
+                          </p>
+                        </div>
+                      )}
+                      {playlistAnalysis.undatedTracks > 0 && (
+                        <p className="text-gray-500 text-xs">
+                          {playlistAnalysis.undatedTracks} local or undated tracks excluded
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
 
+                {/* Mood Map */}
+                <div className="bg-gray-800/50 rounded-lg p-4 mb-8">
+                  <h3 className="text-lg font-semibold mb-1">Mood Map</h3>
+                  <p className="text-gray-400 text-sm mb-4">Each track by happiness (valence) and intensity (energy)</p>
+                  <MoodMap moods={playlistAnalysis.moods} mix={playlistAnalysis.moodMix} />
+                </div>
+
+                {/* Outliers */}
+                <div className="bg-gray-800/50 rounded-lg p-4 mb-8">
+                  <h3 className="text-lg font-semibold mb-1">Outliers</h3>
+                  <p className="text-gray-400 text-sm mb-4">
+                    Tracks furthest from this playlist&apos;s average sound and genres
+                  </p>
+                  <PlaylistOutliers
+                    key={`${selectedPlaylist.id}:${playlistAnalysis.snapshotId}`}
+                    playlistId={selectedPlaylist.id}
+                    snapshotId={playlistAnalysis.snapshotId}
+                    analysis={playlistAnalysis.outliers}
+                    playlists={playlists.filter(playlist =>
+                      playlist.id !== selectedPlaylist.id && (playlist.owner.id === userId || playlist.collaborative)
+                    )}
+                    onChanged={handlePlaylistChanged}
+                  />
+                </div>
+
+                {/* Sequencer */}
+                <div className="bg-gray-800/50 rounded-lg p-4 mb-8">
+                  <h3 className="text-lg font-semibold mb-1">Sequencer</h3>
+                  <p className="text-gray-400 text-sm mb-4">Reorder this playlist for smooth, DJ-style transitions</p>
+                  <PlaylistSequencer
+                    key={`${selectedPlaylist.id}:${playlistAnalysis.snapshotId}`}
+                    playlistId={selectedPlaylist.id}
+                    snapshotId={playlistAnalysis.snapshotId}
+                    tracks={playlistAnalysis.sequencerTracks}
+                    totalItems={playlistAnalysis.totalItems}
+                    onChanged={handlePlaylistChanged}
+                  />
+                </div>
+
+                {/* Playlist Health */}
+                <div className="bg-gray-800/50 rounded-lg p-4 mb-8">
+                  <h3 className="text-lg font-semibold mb-1">Playlist Health</h3>
+                  <p className="text-gray-400 text-sm mb-4">
+                    Duplicates, tracks you can&apos;t play in your country, local files and removed tracks
+                  </p>
+                  <PlaylistHealthScanner
+                    key={`${selectedPlaylist.id}:${playlistAnalysis.snapshotId}`}
+                    playlistId={selectedPlaylist.id}
+                    snapshotId={playlistAnalysis.snapshotId}
+                    health={playlistAnalysis.health}
+                    onChanged={handlePlaylistChanged}
+                  />
+                </div>
+
+                {/* Taste Diversity */}
+                <DiversitySummary
+                  diversity={playlistAnalysis.diversity}
+                  subject="this playlist"
+                  className="mb-8"
+                />
+
                 {/* Playlist Personality */}
                 <div className="bg-gray-800/50 rounded-lg p-6">
                   <h3 className="text-xl font-semibold mb-4">Playlist Personality</h3>
@@ -422,7 +685,15 @@ export default function PlaylistAnalyzer() {
                     <div>
                       <h4 className="font-medium mb-2">Mood</h4>
                       <p className="text-gray-300">
-                        {playlistAnalysis.moodScore > 70
+                        {playlistAnalysis.moodMix.dominant === 'euphoric'
+                          ? 'This playlist is mostly upbeat and energetic, perfect for boosting your mood and getting motivated.'
+                          : playlistAnalysis.moodMix.dominant === 'tense'
+                          ? 'This playlist is mostly dark and intense, with high energy but a brooding edge.'
+                          : playlistAnalysis.moodMix.dominant === 'chill'
+                          ? 'This playlist is mostly positive and relaxed, good for casual listening and unwinding.'
+                          : playlistAnalysis.moodMix.dominant === 'melancholy'
+                          ? 'This playlist is mostly sad and subdued, ideal for quiet, reflective moments.'
+                          : playlistAnalysis.moodScore > 70
                           ? 'This playlist is very upbeat and energetic, perfect for boosting your mood and getting motivated.'
                           : playlistAnalysis.moodScore > 50
                           ? 'This playlist has a positive vibe with moderate energy, good for casual listening and light activities.'
@@ -1,22 +1,45 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useSession } from 'next-auth/react';
 import { motion } from 'framer-motion';
-import { getTopTracks, getRecommendations, getAvailableGenres } from '@/lib/spotify';
+import {
+  getTopTracks,
+  getTopArtists,
+  getFreshRecommendations,
+  excludeKnownTracks,
+  rankRecommendations,
+  getAvailableGenres,
+  isAbortError,
+  fetchSpotifyApi,
+  SPOTIFY_API_BASE_URL
+} from '@/lib/spotify';
+import { RecommendationTuning, appendTuningParams } from '@/lib/recommendation-tuning';
+import { ExclusionOptions, ExclusionReport, exclusionFetchLimits } from '@/lib/recommendation-exclusions';
+import { feedbackTuning } from '@/lib/feedback';
+import { Seed } from '@/lib/seed-planner';
+import AdvancedTuningPanel from '@/components/AdvancedTuningPanel';
+import ExclusionControls from '@/components/ExclusionControls';
+import SavePlaylist from '@/components/SavePlaylist';
+import { FeedbackButtons, FeedbackHistory, useTrackFeedback } from '@/components/TrackFeedback';
+import SeedMixer from '@/components/SeedMixer';
+import { PreviewButton } from '@/components/PreviewPlayer';
 import Image from 'next/image';
 import { FaBug, FaSync } from 'react-icons/fa';
 
 interface Track {
   id: string;
   name: string;
-  artists: { name: string }[];
+  artists: { id: string; name: string }[];
   album: {
     images: { url: string }[];
   };
   external_urls: {
     spotify: string;
   };
+  preview_url?: string | null;
+  // Set on tracks picked by the local recommender
+  source?: 'local';
 }
 
 export default function Recommendations() {
@@ -30,13 +53,37 @@ export default function Recommendations() {
   const [showDebug, setShowDebug] = useState(false);
   const [availableGenres, setAvailableGenres] = useState<string[]>([]);
   const [selectedGenres, setSelectedGenres] = useState<string[]>(['pop', 'rock', 'indie']);
+  const [tuning, setTuning] = useState<RecommendationTuning>({});
+  const [exclude, setExclude] = useState<ExclusionOptions>({ saved: true, topTracks: true });
+  const [exclusionReport, setExclusionReport] = useState<ExclusionReport | null>(null);
+  const [seedOptions, setSeedOptions] = useState<{ tracks: { id: string; label: string }[]; artists: { id: string; label: string }[] }>({ tracks: [], artists: [] });
+  const requestRef = useRef<AbortController | null>(null);
+  const feedbackState = useTrackFeedback();
+
+  // Advanced tuning plus the obscurity slider, which sets the popularity target
+  // unless the tuning panel sets its own
+  const requestTuning = (): RecommendationTuning => ({
+    ...tuning,
+    popularity: {
+      ...tuning.popularity,
+      target: tuning.popularity?.target ?? Math.max(0, Math.min(100, 100 - obscurityLevel)),
+    },
+  });
+
+  // Cancel the previous recommendation request and start a new one
+  const startRequest = () => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    return controller.signal;
+  };
 
   // Function to fetch available genres
-  const fetchAvailableGenres = async () => {
+  const fetchAvailableGenres = async (signal: AbortSignal) => {
     if (!session?.accessToken) return;
     
     try {
-      const genres = await getAvailableGenres(session.accessToken);
+      const genres = await getAvailableGenres(session.accessToken, signal);
       setAvailableGenres(genres);
       
       // Set some default selected genres if they're available
@@ -47,14 +94,81 @@ export default function Recommendations() {
         setSelectedGenres(genres.slice(0, 3));
       }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error fetching genres:', error);
     }
   };
 
+  // Function to load the top tracks and artists offered in the seed mixer
+  const fetchSeedOptions = async (signal: AbortSignal) => {
+    if (!session?.accessToken) return;
+    
+    try {
+      const [tracks, artists] = await Promise.all([
+        getTopTracks(session.accessToken, 'medium_term', 10, signal),
+        getTopArtists(session.accessToken, 'medium_term', 10, signal),
+      ]);
+      setSeedOptions({
+        tracks: tracks.map((track: any) => ({ id: track.id, label: `${track.name} – ${track.artists[0]?.name}` })),
+        artists: artists.map(artist => ({ id: artist.id, label: artist.name })),
+      });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error fetching seed options:', error);
+    }
+  };
+
+  // Function to try recommendations with a prioritised mix of seeds
+  const tryWithSeeds = async (seeds: Seed[]) => {
+    if (!session?.accessToken || !seeds.length) return;
+    
+    const signal = startRequest();
+    setLoading(true);
+    setError(null);
+    setUsingFallback(false);
+    
+    try {
+      console.log('Trying recommendations with mixed seeds:', seeds);
+      
+      const { tracks: recommendedTracks, report } = await getFreshRecommendations(session.accessToken, {
+        seeds,
+        availableGenres,
+        limit: 20,
+        tuning: requestTuning(),
+        exclude,
+        feedback: feedbackState.feedback,
+        signal,
+      });
+      setExclusionReport(report);
+      
+      setDebugInfo({
+        method: `Mixed Seeds (${seeds.map(seed => `${seed.type}:${seed.label || seed.id}`).join(', ')})`,
+        seeds,
+        obscurityLevel: obscurityLevel,
+        tuning: requestTuning(),
+        usingFallback: recommendedTracks[0]?.source === 'local'
+      });
+      
+      setUsingFallback(recommendedTracks[0]?.source === 'local');
+      if (recommendedTracks.length === 0) {
+        setError("Couldn't get recommendations for this seed mix. Try different seeds.");
+      }
+      
+      setRecommendations(recommendedTracks);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error trying with mixed seeds:', error);
+      setError('Failed to get recommendations for this seed mix.');
+    } finally {
+      if (!signal.aborted) setLoading(false);
+    }
+  };
+
   // Function to try recommendations with specific genres
   const tryWithGenres = async (genres: string[]) => {
     if (!session?.accessToken || !genres.length) return;
     
+    const signal = startRequest();
     setLoading(true);
     setError(null);
     setUsingFallback(false);
@@ -63,24 +177,27 @@ export default function Recommendations() {
       console.log('Trying recommendations with genres:', genres);
       
       // Use our improved getRecommendations function with empty track seeds
-      const recommendedTracks = await getRecommendations(
-        session.accessToken,
-        [], // Empty track seeds to force using genre seeds
-        100 - obscurityLevel,
-        20,
-        genres
-      );
+      const { tracks: recommendedTracks, report } = await getFreshRecommendations(session.accessToken, {
+        seedGenres: genres,
+        limit: 20,
+        tuning: requestTuning(),
+        exclude,
+        feedback: feedbackState.feedback,
+        signal,
+      });
+      setExclusionReport(report);
       
       // Save debug info
       setDebugInfo({
         method: `Manual Genre Seeds (${genres.join(',')})`,
         genres: genres,
         obscurityLevel: obscurityLevel,
-        usingFallback: recommendedTracks[0]?.id?.startsWith('fallback-')
+        tuning: requestTuning(),
+        usingFallback: recommendedTracks[0]?.source === 'local'
       });
       
-      if (recommendedTracks[0]?.id?.startsWith('fallback-')) {
-        setUsingFallback(true);
+      setUsingFallback(recommendedTracks[0]?.source === 'local');
+      if (recommendedTracks.length === 0) {
         setError(`Couldn't get recommendations with these genres: ${genres.join(', ')}`);
       } else {
         console.log(`Found ${recommendedTracks.length} recommendations with genres: ${genres.join(',')}`);
@@ -88,35 +205,44 @@ export default function Recommendations() {
       
       setRecommendations(recommendedTracks);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error trying with genres:', error);
       setError('Failed to get recommendations with these genres.');
       setUsingFallback(true);
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
   // Load available genres when session is ready
   useEffect(() => {
     if (status === 'authenticated') {
-      fetchAvailableGenres();
+      const controller = new AbortController();
+      fetchAvailableGenres(controller.signal);
+      fetchSeedOptions(controller.signal);
+      return () => controller.abort();
     }
   }, [status]);
 
   async function fetchRecommendations() {
     if (!session?.accessToken) return;
     
+    const signal = startRequest();
     setLoading(true);
     setError(null);
     setUsingFallback(false);
     setDebugInfo(null);
+    setExclusionReport(null);
+    
+    // Ask for extra tracks when known ones will be filtered out
+    const fetchLimit = exclusionFetchLimits(20, exclude)[0];
     
     try {
       console.log('Fetching recommendations with token:', session.accessToken.substring(0, 10) + '...');
       
       // Get available genres first
       console.log('Fetching available genres...');
-      const availableGenres = await getAvailableGenres(session.accessToken);
+      const availableGenres = await getAvailableGenres(session.accessToken, signal);
       console.log('Available genres:', availableGenres.slice(0, 10), `... and ${availableGenres.length - 10} more`);
       
       // Select a few popular genres that work well for recommendations
@@ -140,15 +266,16 @@ export default function Recommendations() {
       for (const genreCombo of genresToTry) {
         if (genreSuccess) break;
         
-        const genreUrl = new URL('https://api.spotify.com/v1/recommendations');
+        const genreUrl = new URL(`${SPOTIFY_API_BASE_URL}/recommendations`);
         genreUrl.searchParams.append('seed_genres', genreCombo.join(','));
-        genreUrl.searchParams.append('target_popularity', Math.max(0, Math.min(100, 100 - obscurityLevel)).toString());
-        genreUrl.searchParams.append('limit', '20');
+        appendTuningParams(genreUrl.searchParams, feedbackTuning(requestTuning(), feedbackState.feedback));
+        genreUrl.searchParams.append('limit', fetchLimit.toString());
         
         console.log('Debug - Genre Recommendations URL:', genreUrl.toString());
         console.log('Using genres:', genreCombo);
         
-        const genreResponse = await fetch(genreUrl.toString(), {
+        const genreResponse = await fetchSpotifyApi(genreUrl.toString(), {
+          signal,
           headers: {
             'Authorization': `Bearer ${session.accessToken}`,
             'Content-Type': 'application/json'
@@ -170,14 +297,19 @@ export default function Recommendations() {
             rawResponse: genreResponseText
           };
           
-          // If genre seeds worked, use those recommendations
+          // If genre seeds worked, use the recommendations the user doesn't know yet
           if (genreResponse.ok && parsedData.tracks && parsedData.tracks.length > 0) {
-            console.log(`Successfully got ${parsedData.tracks.length} recommendations using genre seeds: ${genreCombo.join(',')}`);
-            genreResponseData = parsedData;
-            genreSuccess = true;
-            break;
+            const ranked = await rankRecommendations<Track>(session.accessToken, parsedData.tracks, feedbackState.feedback, signal);
+            const fresh = await excludeKnownTracks(session.accessToken, ranked, exclude, 20, signal);
+            if (fresh.tracks.length > 0) {
+              console.log(`Successfully got ${fresh.tracks.length} recommendations using genre seeds: ${genreCombo.join(',')}`);
+              genreResponseData = fresh;
+              genreSuccess = true;
+              break;
+            }
           }
         } catch (parseError) {
+          if (isAbortError(parseError)) throw parseError;
           console.error('Error parsing genre response:', parseError);
         }
         
@@ -187,6 +319,7 @@ export default function Recommendations() {
       
       if (genreSuccess && genreResponseData) {
         setRecommendations(genreResponseData.tracks);
+        setExclusionReport(genreResponseData.report);
         setDebugInfo(genreDebugInfo);
         setLoading(false);
         return;
@@ -195,7 +328,7 @@ export default function Recommendations() {
       // If genre seeds didn't work, try with track seeds as before
       console.log("Genre seeds didn't work, trying with track seeds...");
       
-      const topTracks = await getTopTracks(session.accessToken);
+      const topTracks = await getTopTracks(session.accessToken, 'medium_term', 50, signal);
       
       if (!topTracks.length) {
         setError("No top tracks found to base recommendations on. Try listening to more music!");
@@ -212,7 +345,8 @@ export default function Recommendations() {
       
       for (const trackId of seedTracks) {
         try {
-          const trackResponse = await fetch(`https://api.spotify.com/v1/tracks/${trackId}`, {
+          const trackResponse = await fetchSpotifyApi(`${SPOTIFY_API_BASE_URL}/tracks/${trackId}`, {
+            signal,
             headers: {
               'Authorization': `Bearer ${session.accessToken}`,
               'Content-Type': 'application/json'
@@ -225,6 +359,7 @@ export default function Recommendations() {
             invalidSeedTracks.push(trackId);
           }
         } catch (error) {
+          if (isAbortError(error)) throw error;
           console.error(`Error validating track ${trackId}:`, error);
           invalidSeedTracks.push(trackId);
         }
@@ -247,15 +382,16 @@ export default function Recommendations() {
       for (const trackCombo of trackCombosToTry) {
         if (trackSuccess) break;
         
-        const url = new URL('https://api.spotify.com/v1/recommendations');
+        const url = new URL(`${SPOTIFY_API_BASE_URL}/recommendations`);
         url.searchParams.append('seed_tracks', trackCombo.join(','));
-        url.searchParams.append('target_popularity', Math.max(0, Math.min(100, 100 - obscurityLevel)).toString());
-        url.searchParams.append('limit', '20');
+        appendTuningParams(url.searchParams, feedbackTuning(requestTuning(), feedbackState.feedback));
+        url.searchParams.append('limit', fetchLimit.toString());
         
         console.log(`Debug - Trying with ${trackCombo.length} seed tracks:`, trackCombo);
         console.log('Recommendations URL:', url.toString());
         
-        const response = await fetch(url.toString(), {
+        const response = await fetchSpotifyApi(url.toString(), {
+          signal,
           headers: {
             'Authorization': `Bearer ${session.accessToken}`,
             'Content-Type': 'application/json'
@@ -282,12 +418,17 @@ export default function Recommendations() {
           };
           
           if (response.ok && parsedData.tracks && parsedData.tracks.length > 0) {
-            console.log(`Found ${parsedData.tracks.length} recommendations with ${trackCombo.length} seed tracks`);
-            trackResponseData = parsedData;
-            trackSuccess = true;
-            break;
+            const ranked = await rankRecommendations<Track>(session.accessToken, parsedData.tracks, feedbackState.feedback, signal);
+            const fresh = await excludeKnownTracks(session.accessToken, ranked, exclude, 20, signal);
+            if (fresh.tracks.length > 0) {
+              console.log(`Found ${fresh.tracks.length} recommendations with ${trackCombo.length} seed tracks`);
+              trackResponseData = fresh;
+              trackSuccess = true;
+              break;
+            }
           }
         } catch (parseError) {
+          if (isAbortError(parseError)) throw parseError;
           console.error('Error parsing JSON response:', parseError);
         }
         
@@ -297,6 +438,7 @@ export default function Recommendations() {
       
       if (trackSuccess && trackResponseData) {
         setRecommendations(trackResponseData.tracks);
+        setExclusionReport(trackResponseData.report);
         setDebugInfo(trackDebugInfo);
         setLoading(false);
         return;
@@ -305,17 +447,20 @@ export default function Recommendations() {
       // If we got here, all direct API attempts failed
       // Try using our improved getRecommendations function as a last resort
       console.log('All direct API attempts failed. Trying with improved getRecommendations function...');
-      const recommendedTracks = await getRecommendations(
-        session.accessToken,
+      const { tracks: recommendedTracks, report } = await getFreshRecommendations(session.accessToken, {
         seedTracks,
-        100 - obscurityLevel,
-        20,
-        selectedGenres
-      );
+        seedGenres: selectedGenres,
+        limit: 20,
+        tuning: requestTuning(),
+        exclude,
+        feedback: feedbackState.feedback,
+        signal,
+      });
+      setExclusionReport(report);
       
-      if (recommendedTracks[0]?.id?.startsWith('fallback-')) {
-        setUsingFallback(true);
-        setError("Spotify couldn't find recommendations for these tracks. This often happens in Development Mode.");
+      setUsingFallback(recommendedTracks[0]?.source === 'local');
+      if (recommendedTracks.length === 0) {
+        setError("Couldn't find recommendations for these tracks. Try a different obscurity level or some genres.");
       }
       
       setRecommendations(recommendedTracks);
@@ -331,34 +476,22 @@ export default function Recommendations() {
         setDebugInfo(trackDebugInfo || genreDebugInfo);
       }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error fetching recommendations:', error);
       setError('Failed to get recommendations. Please try again later.');
-      
-      // Use fallback recommendations
-      const fallbackTracks = Array(20).fill(null).map((_, index) => ({
-        id: `fallback-${index}`,
-        name: `Fallback Track ${index + 1}`,
-        artists: [{ name: 'Various Artists' }],
-        album: {
-          images: [{ url: '/placeholder.svg' }]
-        },
-        external_urls: {
-          spotify: 'https://open.spotify.com'
-        }
-      }));
-      
-      setUsingFallback(true);
-      setRecommendations(fallbackTracks);
+      setRecommendations([]);
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   }
 
   useEffect(() => {
-    if (status === 'authenticated') {
+    // Wait for saved feedback so the first results are already ranked with it
+    if (status === 'authenticated' && feedbackState.loaded) {
       fetchRecommendations();
     }
-  }, [session, obscurityLevel, status]);
+    return () => requestRef.current?.abort();
+  }, [session, obscurityLevel, tuning, exclude, status, feedbackState.loaded]);
 
   if (status === 'unauthenticated') {
     return (
@@ -452,6 +585,28 @@ export default function Recommendations() {
             <span>Obscure</span>
           </div>
         </div>
+
+        {/* Seed Mixer */}
+        <SeedMixer
+          trackOptions={seedOptions.tracks}
+          artistOptions={seedOptions.artists}
+          genreOptions={availableGenres}
+          onSubmit={tryWithSeeds}
+          disabled={loading}
+        />
+
+        {/* Known-track exclusions */}
+        <ExclusionControls exclude={exclude} onChange={setExclude} report={exclusionReport} />
+
+        {/* Feedback history */}
+        <FeedbackHistory state={feedbackState} />
+
+        {/* Advanced Tuning */}
+        <AdvancedTuningPanel
+          tuning={tuning}
+          onApply={setTuning}
+          note="A popularity target here overrides the obscurity slider."
+        />
         
         {availableGenres.length > 0 && (
           <div className="mb-8 p-4 bg-gray-800/50 rounded-lg">
@@ -504,12 +659,14 @@ export default function Recommendations() {
         {usingFallback && (
           <div className="mb-6 p-4 bg-yellow-800/50 rounded-lg text-yellow-200">
             <p className="font-medium">
-              Note: Using placeholder recommendations due to Spotify API restrictions. 
-              This is likely because your app is in Development Mode in the Spotify Developer Dashboard.
+              Note: Spotify's recommendations aren't available to this app, so these picks come from
+              your own library (top artists' catalogs, saved tracks and playlists), ranked by how
+              close they sound to your seeds. This is likely because your app is in Development Mode
+              in the Spotify Developer Dashboard.
             </p>
             <p className="text-sm mt-2">
-              To fix this, go to your Spotify Developer Dashboard, add your email as an authorized user, 
-              or consider switching to Extended Quota Mode.
+              To get Spotify's recommendations, go to your Spotify Developer Dashboard, add your email as
+              an authorized user, or consider switching to Extended Quota Mode.
             </p>
             <p className="text-sm mt-2">
               If you've already added your email as an authorized user, try the following:
@@ -533,32 +690,43 @@ export default function Recommendations() {
             <p className="text-gray-300">{error}</p>
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {recommendations.map((track) => (
-              <motion.a
-                key={track.id}
-                href={track.external_urls.spotify}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="bg-gray-800/50 rounded-lg p-4 hover:bg-gray-700/50 transition-colors"
-                whileHover={{ scale: 1.02 }}
-                whileTap={{ scale: 0.98 }}
-              >
-                <div className="relative w-full aspect-square mb-4">
-                  <Image
-                    src={track.album.images[0]?.url || '/placeholder.svg'}
-                    alt={track.name}
-                    fill
-                    className="rounded-md object-cover"
-                  />
-                </div>
-                <h3 className="font-semibold truncate">{track.name}</h3>
-                <p className="text-gray-400 text-sm truncate">
-                  {track.artists.map(artist => artist.name).join(', ')}
-                </p>
-              </motion.a>
-            ))}
-          </div>
+          <>
+            {recommendations.length > 0 && (
+              <SavePlaylist
+                tracks={recommendations}
+                defaultName={`Vibify Recommendations (${new Date().toLocaleDateString()})`}
+                defaultDescription={`Recommended by Vibify at ${obscurityLevel}% obscurity.`}
+              />
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {recommendations.map((track, index) => (
+                <motion.a
+                  key={track.id}
+                  href={track.external_urls.spotify}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="bg-gray-800/50 rounded-lg p-4 hover:bg-gray-700/50 transition-colors"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  <div className="relative w-full aspect-square mb-4">
+                    <Image
+                      src={track.album.images[0]?.url || '/placeholder.svg'}
+                      alt={track.name}
+                      fill
+                      className="rounded-md object-cover"
+                    />
+                    <PreviewButton tracks={recommendations} index={index} className="absolute bottom-2 right-2 z-10" />
+                  </div>
+                  <h3 className="font-semibold truncate">{track.name}</h3>
+                  <p className="text-gray-400 text-sm truncate">
+                    {track.artists.map(artist => artist.name).join(', ')}
+                  </p>
+                  <FeedbackButtons track={track} state={feedbackState} className="mt-3" />
+                </motion.a>
+              ))}
+            </div>
+          </>
         )}
       </motion.div>
     </div>
@@ -3,26 +3,24 @@
 import React, { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { motion } from 'framer-motion';
-import { getTopTracks, getTrackFeatures, calculateObscurityScore, calculateMoodScore } from '@/lib/spotify';
+import { getTopTracks, getTopArtists, getTrackFeatures, countArtistGenres, calculateObscurityScore, calculateMoodScore, isAbortError } from '@/lib/spotify';
+import { AudioFeatureSource, countFeatureSources } from '@/lib/audio-features';
+import { DiversityMetrics, calculateDiversity } from '@/lib/diversity';
+import FeatureSourceSummary from '@/components/FeatureSourceSummary';
+import DiversitySummary from '@/components/DiversitySummary';
+import SavePlaylist from '@/components/SavePlaylist';
+import { PreviewButton } from '@/components/PreviewPlayer';
+import type { SpotifyArtist, TimeRange } from '@/lib/spotify';
 import Image from 'next/image';
-import { FaSpinner, FaHistory, FaCalendarAlt, FaChartLine } from 'react-icons/fa';
+import { FaSpinner, FaHistory, FaCalendarAlt, FaChartLine, FaUsers } from 'react-icons/fa';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
-type TimeRange = 'short_term' | 'medium_term' | 'long_term';
-
 interface TimeRangeOption {
   value: TimeRange;
   label: string;
   description: string;
 }
 
-interface Artist {
-  id: string;
-  name: string;
-  images: { url: string }[];
-  external_urls: { spotify: string };
-}
-
 interface Track {
   id: string;
   name: string;
@@ -34,6 +32,7 @@ interface Track {
     spotify: string;
   };
   popularity: number;
+  preview_url?: string | null;
 }
 
 interface TimeRangeData {
@@ -41,14 +40,16 @@ interface TimeRangeData {
   moodScore: number;
   energyScore: number;
   danceabilityScore: number;
+  diversity: DiversityMetrics;
   topTracks: Track[];
-  topArtists: Artist[];
+  topArtists: SpotifyArtist[];
   audioFeatures: {
     danceability: number;
     energy: number;
     valence: number;
     acousticness: number;
   };
+  featureSources: Record<AudioFeatureSource, number>;
 }
 
 const timeRangeOptions: TimeRangeOption[] = [
@@ -88,7 +89,9 @@ export default function TimeMachine() {
   // Fetch data for all time ranges when component mounts
   useEffect(() => {
     if (status === 'authenticated' && session?.accessToken) {
-      fetchAllTimeRanges();
+      const controller = new AbortController();
+      fetchAllTimeRanges(controller.signal);
+      return () => controller.abort();
     }
   }, [session, status]);
 
@@ -100,9 +103,10 @@ export default function TimeMachine() {
   }, [timeRangeData]);
 
   // Fetch data for all time ranges
-  const fetchAllTimeRanges = async () => {
+  const fetchAllTimeRanges = async (signal: AbortSignal) => {
     for (const range of timeRangeOptions) {
-      await fetchTimeRangeData(range.value);
+      if (signal.aborted) return;
+      await fetchTimeRangeData(range.value, signal);
     }
   };
 
@@ -133,13 +137,19 @@ export default function TimeMachine() {
         'Last 6 Months': timeRangeData.medium_term?.danceabilityScore || 0,
         'All Time': timeRangeData.long_term?.danceabilityScore || 0,
       },
+      {
+        name: 'Diversity',
+        'Last 4 Weeks': timeRangeData.short_term?.diversity.score || 0,
+        'Last 6 Months': timeRangeData.medium_term?.diversity.score || 0,
+        'All Time': timeRangeData.long_term?.diversity.score || 0,
+      },
     ];
     
     setComparisonData(data);
   };
 
   // Fetch data for a specific time range
-  const fetchTimeRangeData = async (timeRange: TimeRange) => {
+  const fetchTimeRangeData = async (timeRange: TimeRange, signal: AbortSignal) => {
     if (!session?.accessToken) return;
     
     setLoading(prev => ({ ...prev, [timeRange]: true }));
@@ -147,15 +157,14 @@ export default function TimeMachine() {
     
     try {
       // Fetch top tracks for the time range
-      const topTracks = await getTopTracks(session.accessToken, timeRange);
+      const topTracks = await getTopTracks(session.accessToken, timeRange, 50, signal);
       
       if (!topTracks.length) {
         throw new Error(`No top tracks found for ${timeRange}`);
       }
       
-      // Extract track IDs and get audio features
-      const trackIds = topTracks.slice(0, 20).map((track: Track) => track.id);
-      const features = await getTrackFeatures(session.accessToken, trackIds);
+      // Get audio features for the top 20 tracks
+      const features = await getTrackFeatures(session.accessToken, topTracks.slice(0, 20), signal);
       
       // Calculate average features
       const avgFeatures = features.reduce((acc: any, curr: any) => {
@@ -179,14 +188,17 @@ export default function TimeMachine() {
       const avgObscurity = topTracks.reduce((acc: number, track: Track) => 
         acc + calculateObscurityScore(track.popularity || 50), 0) / topTracks.length;
       
-      // Fetch top artists (mock data for now since we don't have this endpoint)
-      const mockTopArtists: Artist[] = Array(5).fill(null).map((_, index) => ({
-        id: `artist-${index}`,
-        name: `Artist ${index + 1}`,
-        images: [{ url: '/placeholder.svg' }],
-        external_urls: { spotify: 'https://open.spotify.com' }
-      }));
-      
+      // Fetch top artists for the time range
+      let topArtists: SpotifyArtist[];
+      try {
+        topArtists = await getTopArtists(session.accessToken, timeRange, 10, signal);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        // Without top artists the artist list and genre diversity are empty, but the track stats still show
+        console.error(`Error fetching ${timeRange} top artists:`, error);
+        topArtists = [];
+      }
+
       // Set the time range data
       setTimeRangeData(prev => ({
         ...prev,
@@ -195,16 +207,19 @@ export default function TimeMachine() {
           moodScore: Math.round(calculateMoodScore(avgFeatures.valence, avgFeatures.energy)),
           energyScore: Math.round(avgFeatures.energy * 100),
           danceabilityScore: Math.round(avgFeatures.danceability * 100),
+          diversity: calculateDiversity({ tracks: topTracks, genres: countArtistGenres(topArtists), features }),
           topTracks: topTracks.slice(0, 10),
-          topArtists: mockTopArtists,
-          audioFeatures: avgFeatures
+          topArtists,
+          audioFeatures: avgFeatures,
+          featureSources: countFeatureSources(features)
         }
       }));
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error(`Error fetching ${timeRange} data:`, error);
       setError(`Failed to load your ${timeRange.replace('_', ' ')} data. Please try again later.`);
     } finally {
-      setLoading(prev => ({ ...prev, [timeRange]: false }));
+      if (!signal.aborted) setLoading(prev => ({ ...prev, [timeRange]: false }));
     }
   };
 
@@ -365,6 +380,18 @@ export default function TimeMachine() {
               Your Top Tracks ({timeRangeOptions.find(o => o.value === activeTimeRange)?.label})
             </h2>
             
+            <SavePlaylist
+              key={activeTimeRange}
+              tracks={timeRangeData[activeTimeRange]!.topTracks}
+              defaultName={`My Top Tracks: ${timeRangeOptions.find(o => o.value === activeTimeRange)?.label}`}
+              defaultDescription={`${timeRangeOptions.find(o => o.value === activeTimeRange)?.description}, saved with Vibify's Time Machine.`}
+            />
+
+            <DiversitySummary
+              diversity={timeRangeData[activeTimeRange]!.diversity}
+              className="mb-6"
+            />
+            
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 mb-12">
               {timeRangeData[activeTimeRange]?.topTracks.map((track, index) => (
                 <motion.a
@@ -386,6 +413,11 @@ export default function TimeMachine() {
                       fill
                       className="rounded-md object-cover"
                     />
+                    <PreviewButton
+                      tracks={timeRangeData[activeTimeRange]!.topTracks}
+                      index={index}
+                      className="absolute bottom-2 right-2 z-10"
+                    />
                   </div>
                   <h3 className="font-semibold truncate">{track.name}</h3>
                   <p className="text-gray-400 text-sm truncate">
@@ -395,7 +427,51 @@ export default function TimeMachine() {
               ))}
             </div>
             
+            {/* Top artists for the selected time range */}
+            {timeRangeData[activeTimeRange]!.topArtists.length > 0 && (
+              <>
+                <h2 className="text-2xl font-semibold mb-6 flex items-center gap-2">
+                  <FaUsers className="text-purple-500" />
+                  Your Top Artists ({timeRangeOptions.find(o => o.value === activeTimeRange)?.label})
+                </h2>
+                
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-6 mb-12">
+                  {timeRangeData[activeTimeRange]?.topArtists.map((artist, index) => (
+                    <motion.a
+                      key={artist.id}
+                      href={artist.external_urls.spotify}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="bg-gray-800/50 rounded-lg p-4 hover:bg-gray-700/50 transition-colors"
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                    >
+                      <div className="relative w-full aspect-square mb-4">
+                        <div className="absolute top-0 left-0 w-8 h-8 bg-purple-600 rounded-tl-full rounded-br-md flex items-center justify-center font-bold z-10">
+                          {index + 1}
+                        </div>
+                        <Image
+                          src={artist.images[0]?.url || '/placeholder.svg'}
+                          alt={artist.name}
+                          fill
+                          className="rounded-full object-cover"
+                        />
+                      </div>
+                      <h3 className="font-semibold truncate text-center">{artist.name}</h3>
+                      <p className="text-gray-400 text-xs truncate text-center">
+                        {artist.genres.slice(0, 2).join(', ') || 'No genres listed'}
+                      </p>
+                      <p className="text-gray-500 text-xs text-center mt-1">
+                        {artist.followers.total.toLocaleString()} followers • {artist.popularity} popularity
+                      </p>
+                    </motion.a>
+                  ))}
+                </div>
+              </>
+            )}
+            
             {/* Stats for the selected time range */}
+            <FeatureSourceSummary sources={timeRangeData[activeTimeRange]!.featureSources} className="mb-4" />
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
               <div className="bg-gray-800/50 rounded-lg p-4">
                 <h3 className="text-lg font-semibold mb-2">Obscurity Score</h3>
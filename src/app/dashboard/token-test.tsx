@@ -2,7 +2,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
-import { validateToken } from '@/lib/spotify';
+import { validateToken, isAbortError } from '@/lib/spotify';
 
 export default function TokenTest() {
   const { data: session, status } = useSession();
@@ -11,6 +11,8 @@ export default function TokenTest() {
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    const controller = new AbortController();
+
     async function checkToken() {
       if (!session?.accessToken) {
         setError('No access token available');
@@ -20,19 +22,22 @@ export default function TokenTest() {
       setLoading(true);
       try {
         console.log('Testing token:', session.accessToken.substring(0, 10) + '...');
-        const result = await validateToken(session.accessToken);
+        const result = await validateToken(session.accessToken, controller.signal);
         setTokenInfo(result);
       } catch (err) {
+        if (isAbortError(err)) return;
         console.error('Error validating token:', err);
         setError('Error validating token');
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     }
 
     if (status === 'authenticated') {
       checkToken();
     }
+
+    return () => controller.abort();
   }, [session, status]);
 
   if (status === 'loading' || loading) {
@@ -3,8 +3,9 @@
 import React from 'react';
 import { signIn, useSession } from 'next-auth/react';
 import { motion } from 'framer-motion';
-import { FaSpotify } from 'react-icons/fa';
+import { FaSpotify, FaPlay } from 'react-icons/fa';
 import Link from 'next/link';
+import { DEMO_MODE } from '@/lib/spotify';
 
 export default function Home() {
   const { data: session } = useSession();
@@ -26,15 +27,30 @@ export default function Home() {
         </p>
 
         {!session ? (
-          <motion.button
-            whileHover={{ scale: 1.05 }}
-            whileTap={{ scale: 0.95 }}
-            onClick={() => signIn('spotify', { callbackUrl: '/dashboard' })}
-            className="bg-[#1DB954] text-white px-8 py-4 rounded-full font-bold text-lg flex items-center gap-3 hover:bg-[#1ed760] transition-colors"
-          >
-            <FaSpotify className="text-2xl" />
-            Connect with Spotify
-          </motion.button>
+          <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => signIn('spotify', { callbackUrl: '/dashboard' })}
+              className="bg-[#1DB954] text-white px-8 py-4 rounded-full font-bold text-lg flex items-center gap-3 hover:bg-[#1ed760] transition-colors"
+            >
+              <FaSpotify className="text-2xl" />
+              Connect with Spotify
+            </motion.button>
+
+            {/* Demo sign-in, no Spotify account needed */}
+            {DEMO_MODE && (
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => signIn('demo', { callbackUrl: '/dashboard' })}
+                className="bg-purple-600 text-white px-8 py-4 rounded-full font-bold text-lg flex items-center gap-3 hover:bg-purple-700 transition-colors"
+              >
+                <FaPlay className="text-xl" />
+                Try the Demo
+              </motion.button>
+            )}
+          </div>
         ) : (
           <Link
             href="/dashboard"
@@ -0,0 +1,174 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { FaChevronDown, FaChevronUp, FaSlidersH } from 'react-icons/fa';
+import {
+  AttributeTuning,
+  RecommendationTuning,
+  TUNABLE_ATTRIBUTES,
+  TunableAttributeInfo,
+} from '@/lib/recommendation-tuning';
+
+// Collapsible panel of min/target/max sliders for recommendation attributes.
+// Edits are kept as a draft until "Apply" so each slider move doesn't refetch.
+export default function AdvancedTuningPanel({
+  tuning,
+  onApply,
+  note,
+}: {
+  tuning: RecommendationTuning;
+  onApply: (tuning: RecommendationTuning) => void;
+  note?: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<RecommendationTuning>(tuning);
+
+  useEffect(() => {
+    setDraft(tuning);
+  }, [tuning]);
+
+  // Attributes enabled without a moved slider don't limit anything
+  const activeCount = Object.values(tuning).filter(values =>
+    values && (values.min !== undefined || values.max !== undefined || values.target !== undefined)
+  ).length;
+
+  const updateAttribute = (info: TunableAttributeInfo, values: AttributeTuning | null) => {
+    const next = { ...draft };
+    if (values) {
+      next[info.key] = values;
+    } else {
+      delete next[info.key];
+    }
+    setDraft(next);
+  };
+
+  // Only the bounds the user moved are stored; a min or max slider at its end
+  // means no limit. Keeps min <= target <= max whichever slider moved.
+  const setBound = (info: TunableAttributeInfo, bound: keyof AttributeTuning, value: number) => {
+    let { min, max, target } = draft[info.key] || {};
+
+    if (bound === 'min') {
+      min = value > info.min ? value : undefined;
+      if (min !== undefined && max !== undefined) max = Math.max(max, min);
+    } else if (bound === 'max') {
+      max = value < info.max ? value : undefined;
+      if (max !== undefined && min !== undefined) min = Math.min(min, max);
+    } else {
+      target = value;
+    }
+    if (target !== undefined) target = Math.min(max ?? info.max, Math.max(min ?? info.min, target));
+
+    const next: AttributeTuning = {};
+    if (min !== undefined) next.min = min;
+    if (max !== undefined) next.max = max;
+    if (target !== undefined) next.target = target;
+    updateAttribute(info, next);
+  };
+
+  const renderSlider = (info: TunableAttributeInfo, bound: keyof AttributeTuning, label: string, value: number | undefined, fallback: number) => (
+    <label className="block text-xs text-gray-400">
+      <span className="flex justify-between mb-1">
+        <span>{label}</span>
+        <span className="text-gray-200">{value === undefined ? 'Any' : info.format(value)}</span>
+      </span>
+      <input
+        type="range"
+        min={info.min}
+        max={info.max}
+        step={info.step}
+        value={value ?? fallback}
+        onChange={(e) => setBound(info, bound, Number(e.target.value))}
+        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+      />
+    </label>
+  );
+
+  return (
+    <div className="mb-8 bg-gray-800/50 rounded-lg">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <span className="flex items-center gap-2 font-semibold">
+          <FaSlidersH className="text-purple-400" />
+          Advanced Tuning
+          {activeCount > 0 && (
+            <span className="text-xs bg-purple-600 text-white px-2 py-0.5 rounded-full">
+              {activeCount} active
+            </span>
+          )}
+        </span>
+        {open ? <FaChevronUp /> : <FaChevronDown />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4">
+          <p className="text-sm text-gray-400 mb-4">
+            Limit recommendations to a range of each attribute, and optionally aim for a target value.
+            {note && ` ${note}`}
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {TUNABLE_ATTRIBUTES.map(info => {
+              const values = draft[info.key];
+              return (
+                <div key={info.key} className="p-3 bg-gray-900/50 rounded-lg">
+                  <label className="flex items-center gap-2 mb-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!values}
+                      onChange={(e) => updateAttribute(info, e.target.checked ? {} : null)}
+                      className="accent-purple-600"
+                    />
+                    <span className="font-medium">{info.label}</span>
+                    <span className="text-xs text-gray-500">{info.description}</span>
+                  </label>
+
+                  {values && (
+                    <div className="space-y-2">
+                      {renderSlider(info, 'min', 'Min', values.min, info.min)}
+                      {renderSlider(info, 'max', 'Max', values.max, info.max)}
+                      <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={values.target !== undefined}
+                          onChange={(e) => {
+                            const { target, ...bounds } = values;
+                            updateAttribute(info, e.target.checked
+                              ? { ...bounds, target: ((values.min ?? info.min) + (values.max ?? info.max)) / 2 }
+                              : bounds);
+                          }}
+                          className="accent-purple-600"
+                        />
+                        Aim for a target value
+                      </label>
+                      {values.target !== undefined && renderSlider(info, 'target', 'Target', values.target, values.target)}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex gap-2 mt-4">
+            <button
+              onClick={() => onApply(draft)}
+              className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              Apply Tuning
+            </button>
+            <button
+              onClick={() => {
+                setDraft({});
+                onApply({});
+              }}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
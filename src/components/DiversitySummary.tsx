@@ -0,0 +1,73 @@
+'use client';
+
+import React from 'react';
+import { FaRandom } from 'react-icons/fa';
+import { DiversityMetrics, DistributionMetrics } from '@/lib/diversity';
+
+// Card with the diversity score and the metrics behind it
+export default function DiversitySummary({
+  diversity,
+  subject = 'your top tracks',
+  className = '',
+}: {
+  diversity: DiversityMetrics;
+  subject?: string;
+  className?: string;
+}) {
+  const { concentration } = diversity;
+
+  const renderDistribution = (label: string, metrics: DistributionMetrics) => (
+    <div className="bg-gray-900/50 rounded-md p-3">
+      <p className="text-sm text-gray-400">{label}</p>
+      <p className="text-lg font-semibold">{metrics.unique} unique</p>
+      <p
+        className="text-xs text-gray-400"
+        title="Shannon entropy in bits, and how close it is to a perfectly even spread"
+      >
+        Entropy {metrics.entropy.toFixed(2)} bits ({Math.round(metrics.evenness * 100)}% even)
+      </p>
+      <p
+        className="text-xs text-gray-400"
+        title="Gini coefficient: 0 means every item is equally common, 1 means one item dominates"
+      >
+        Gini {metrics.gini.toFixed(2)}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className={`bg-gray-800/50 rounded-lg p-4 ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="flex items-center gap-2 text-xl font-semibold">
+          <FaRandom className="text-yellow-400" />
+          Taste Diversity
+        </h3>
+        <span className="text-3xl font-bold text-yellow-400">{diversity.score}%</span>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-3">
+        {renderDistribution('Genres', diversity.genres)}
+        {renderDistribution('Artists', diversity.artists)}
+        <div className="bg-gray-900/50 rounded-md p-3">
+          <p className="text-sm text-gray-400">Sound spread</p>
+          <p className="text-lg font-semibold">
+            {diversity.featureSpread === null ? 'n/a' : `${Math.round(diversity.featureSpread * 100)}%`}
+          </p>
+          <p className="text-xs text-gray-400">
+            {diversity.featureSpread === null
+              ? 'Not enough audio features to compare'
+              : 'Average distance between tracks in audio-feature space'}
+          </p>
+        </div>
+      </div>
+
+      {concentration.artists.length > 0 && (
+        <p className="text-sm text-gray-300">
+          Top {concentration.artists.length} artist{concentration.artists.length === 1 ? '' : 's'}{' '}
+          ({concentration.artists.join(', ')}) make up{' '}
+          <span className="text-yellow-400 font-semibold">{Math.round(concentration.share * 100)}%</span> of {subject}.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { FaEyeSlash } from 'react-icons/fa';
+import { getUserPlaylists, isAbortError } from '@/lib/spotify';
+import { ExclusionOptions, ExclusionReport } from '@/lib/recommendation-exclusions';
+
+// Toggles for leaving already-known tracks out of recommendations, plus a
+// summary of how many the last request filtered out
+export default function ExclusionControls({
+  exclude,
+  onChange,
+  report,
+}: {
+  exclude: ExclusionOptions;
+  onChange: (exclude: ExclusionOptions) => void;
+  report?: ExclusionReport | null;
+}) {
+  const { data: session } = useSession();
+  const [playlists, setPlaylists] = useState<{ id: string; name: string }[]>([]);
+
+  useEffect(() => {
+    if (!session?.accessToken) return;
+    const controller = new AbortController();
+
+    getUserPlaylists(session.accessToken, 50, controller.signal)
+      .then(items => setPlaylists(items.map((playlist: any) => ({ id: playlist.id, name: playlist.name }))))
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Error fetching playlists for exclusions:', error);
+      });
+
+    return () => controller.abort();
+  }, [session?.accessToken]);
+
+  return (
+    <div className="mb-8 p-4 bg-gray-800/50 rounded-lg">
+      <h3 className="flex items-center gap-2 text-lg font-semibold mb-3">
+        <FaEyeSlash className="text-purple-400" />
+        Hide Tracks I Know
+      </h3>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!exclude.saved}
+            onChange={(e) => onChange({ ...exclude, saved: e.target.checked })}
+            className="accent-purple-600"
+          />
+          Liked Songs
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!exclude.topTracks}
+            onChange={(e) => onChange({ ...exclude, topTracks: e.target.checked })}
+            className="accent-purple-600"
+          />
+          My top tracks (all time ranges)
+        </label>
+        <select
+          value={exclude.playlistId || ''}
+          onChange={(e) => onChange({ ...exclude, playlistId: e.target.value || undefined })}
+          disabled={!playlists.length}
+          className="bg-gray-700 text-white rounded-md px-3 py-2 disabled:opacity-50"
+        >
+          <option value="">No playlist</option>
+          {playlists.map(playlist => (
+            <option key={playlist.id} value={playlist.id}>Tracks in “{playlist.name}”</option>
+          ))}
+        </select>
+      </div>
+
+      {report && report.filtered > 0 && (
+        <p className="text-sm text-gray-400 mt-3">
+          Filtered out {report.filtered} of {report.fetched} tracks you already know
+          ({report.byReason.saved} liked, {report.byReason.topTracks} top tracks, {report.byReason.playlist} in the playlist).
+          {report.requested > report.fetched - report.filtered && ' Not enough fresh tracks were left to fill the list.'}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import React from 'react';
+import { FeatureHighlights as Highlights, formatDuration } from '@/lib/audio-features';
+
+// One-line summary of tempo, loudness, length, key and meter
+export default function FeatureHighlights({
+  highlights,
+  className = '',
+}: {
+  highlights: Highlights;
+  className?: string;
+}) {
+  const parts = [
+    `${Math.round(highlights.tempo)} BPM`,
+    `${highlights.loudness.toFixed(1)} dB`,
+    `${formatDuration(highlights.durationMs)} long`,
+    highlights.key && `mostly ${highlights.key}`,
+    highlights.timeSignature && `${highlights.timeSignature}/4 time`
+  ].filter(Boolean);
+
+  return (
+    <p className={`text-sm text-gray-400 ${className}`}>
+      On average: {parts.join(' • ')}
+    </p>
+  );
+}
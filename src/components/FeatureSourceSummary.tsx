@@ -0,0 +1,26 @@
+'use client';
+
+import React from 'react';
+import { AudioFeatureSource, FEATURE_SOURCE_LABELS } from '@/lib/audio-features';
+
+// One-line breakdown of where a set of audio features came from
+export default function FeatureSourceSummary({
+  sources,
+  className = '',
+}: {
+  sources: Record<AudioFeatureSource, number>;
+  className?: string;
+}) {
+  const total = sources.spotify + sources.dataset + sources.fallback;
+  if (total === 0) return null;
+
+  const parts = (Object.keys(FEATURE_SOURCE_LABELS) as AudioFeatureSource[])
+    .filter(source => sources[source] > 0)
+    .map(source => `${sources[source]} from ${FEATURE_SOURCE_LABELS[source]}`);
+
+  return (
+    <p className={`text-sm ${sources.fallback > 0 ? 'text-yellow-300' : 'text-gray-400'} ${className}`}>
+      Audio features for {total} tracks: {parts.join(' • ')}
+    </p>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import React from 'react';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ReferenceLine,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { MOOD_MIDPOINT, MOOD_QUADRANTS, MoodMix, MoodQuadrant, TrackMood } from '@/lib/mood';
+
+// Tooltip for one track on the mood plane
+function MoodTooltip({ active, payload }: { active?: boolean; payload?: { payload: TrackMood }[] }) {
+  if (!active || !payload?.length) return null;
+  const track = payload[0].payload;
+  return (
+    <div className="bg-gray-900 border border-gray-700 rounded-md p-2 text-sm">
+      <p className="font-semibold">{track.name}</p>
+      <p className="text-gray-400">{track.artist}</p>
+      <p style={{ color: MOOD_QUADRANTS[track.mood].color }}>
+        {MOOD_QUADRANTS[track.mood].label} • valence {Math.round(track.valence * 100)}%, energy {Math.round(track.energy * 100)}%
+      </p>
+    </div>
+  );
+}
+
+// Scatter plot of tracks on the valence/energy plane with the mood mix below it
+export default function MoodMap({ moods, mix }: { moods: TrackMood[]; mix: MoodMix }) {
+  if (!moods.length) {
+    return (
+      <p className="text-gray-400 text-sm">
+        No tracks have real audio features yet, so their moods can&apos;t be placed.
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <div className="h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+            <XAxis
+              type="number"
+              dataKey="valence"
+              name="Valence"
+              domain={[0, 1]}
+              tickFormatter={(value: number) => `${Math.round(value * 100)}`}
+              label={{ value: 'Valence (sad → happy)', position: 'insideBottom', offset: -10, fill: '#9ca3af' }}
+            />
+            <YAxis
+              type="number"
+              dataKey="energy"
+              name="Energy"
+              domain={[0, 1]}
+              tickFormatter={(value: number) => `${Math.round(value * 100)}`}
+              label={{ value: 'Energy', angle: -90, position: 'insideLeft', fill: '#9ca3af' }}
+            />
+            <ReferenceLine x={MOOD_MIDPOINT} stroke="#6b7280" />
+            <ReferenceLine y={MOOD_MIDPOINT} stroke="#6b7280" />
+            <Tooltip content={<MoodTooltip />} />
+            {(Object.keys(MOOD_QUADRANTS) as MoodQuadrant[]).map(mood => (
+              <Scatter
+                key={mood}
+                name={MOOD_QUADRANTS[mood].label}
+                data={moods.filter(track => track.mood === mood)}
+                fill={MOOD_QUADRANTS[mood].color}
+              />
+            ))}
+          </ScatterChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Mood mix */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-4">
+        {mix.entries.map(entry => (
+          <div
+            key={entry.mood}
+            className={`bg-gray-900/50 rounded-md p-3 ${mix.dominant === entry.mood ? 'ring-1 ring-gray-500' : ''}`}
+            title={MOOD_QUADRANTS[entry.mood].description}
+          >
+            <p className="text-sm" style={{ color: MOOD_QUADRANTS[entry.mood].color }}>{entry.label}</p>
+            <p className="text-2xl font-bold">{Math.round(entry.share * 100)}%</p>
+            <p className="text-xs text-gray-400">{entry.count} track{entry.count === 1 ? '' : 's'}</p>
+          </div>
+        ))}
+      </div>
+      {mix.unclassified > 0 && (
+        <p className="text-xs text-gray-500 mt-2">
+          {mix.unclassified} track{mix.unclassified === 1 ? '' : 's'} without real audio features not placed
+        </p>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import React, { useState } from 'react';
 import Link from 'next/link';
 import { useSession, signOut } from 'next-auth/react';
 import { FaSignOutAlt, FaKey, FaCheck, FaTimes, FaSpinner } from 'react-icons/fa';
-import { validateToken } from '@/lib/spotify';
+import { DEMO_MODE, validateToken } from '@/lib/spotify';
 
 export default function Navbar() {
   const { data: session } = useSession();
@@ -29,9 +29,19 @@ export default function Navbar() {
   return (
     <>
       <nav className="bg-gray-900/80 backdrop-blur-sm py-4 px-6 flex justify-between items-center">
-        <Link href="/" className="text-xl font-bold bg-gradient-to-r from-green-400 to-purple-500 text-transparent bg-clip-text">
-          Vibify
-        </Link>
+        <div className="flex items-center gap-3">
+          <Link href="/" className="text-xl font-bold bg-gradient-to-r from-green-400 to-purple-500 text-transparent bg-clip-text">
+            Vibify
+          </Link>
+          {DEMO_MODE && session && (
+            <span
+              className="text-xs font-semibold uppercase tracking-wide bg-yellow-500/20 text-yellow-300 px-2 py-1 rounded-full"
+              title="Signed in with bundled demo data, not a real Spotify account"
+            >
+              Demo data
+            </span>
+          )}
+        </div>
         
         <div className="flex items-center gap-4">
           {session ? (
@@ -0,0 +1,261 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import Image from 'next/image';
+import { FaSpinner } from 'react-icons/fa';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Legend,
+  PolarAngleAxis,
+  PolarGrid,
+  PolarRadiusAxis,
+  Radar,
+  RadarChart,
+  ResponsiveContainer,
+  Tooltip
+} from 'recharts';
+import {
+  getGenreDistribution,
+  getPlaylistTracks,
+  getTopTracks,
+  getTrackFeatures,
+  isAbortError,
+  UNKNOWN_GENRE
+} from '@/lib/spotify';
+import { ComparisonSide, PlaylistComparison as Comparison, comparePlaylists } from '@/lib/playlist-compare';
+
+// Value of a side picker: a playlist ID, or the user's top tracks
+const TOP_TRACKS = 'top-tracks';
+
+const COLORS = { a: '#8884d8', b: '#82ca9d' };
+
+interface ComparablePlaylist {
+  id: string;
+  name: string;
+}
+
+// Tracks, features and genres for one side of the comparison
+async function loadSide(
+  accessToken: string,
+  source: string,
+  playlists: ComparablePlaylist[],
+  signal: AbortSignal
+): Promise<ComparisonSide> {
+  const tracks = source === TOP_TRACKS
+    ? await getTopTracks(accessToken, 'medium_term', 50, signal)
+    : (await getPlaylistTracks(accessToken, source, undefined, signal))
+        .map((item: any) => item.track)
+        .filter((track: any) => track && track.id);
+
+  const features = await getTrackFeatures(accessToken, tracks, signal);
+  const genres = (await getGenreDistribution(accessToken, tracks, signal))
+    .filter(genre => genre.name !== UNKNOWN_GENRE);
+
+  return {
+    label: source === TOP_TRACKS ? 'Your top tracks' : playlists.find(playlist => playlist.id === source)?.name || 'Playlist',
+    tracks,
+    features,
+    genres
+  };
+}
+
+function percent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+// Compare mode for the playlist analyzer: two playlists, or a playlist
+// against the user's top tracks
+export default function PlaylistComparison({
+  playlists,
+  initialPlaylistId,
+}: {
+  playlists: ComparablePlaylist[];
+  initialPlaylistId?: string;
+}) {
+  const { data: session } = useSession();
+  const [sourceA, setSourceA] = useState(initialPlaylistId || playlists[0]?.id || TOP_TRACKS);
+  const [sourceB, setSourceB] = useState(TOP_TRACKS);
+  const [sides, setSides] = useState<[ComparisonSide, ComparisonSide] | null>(null);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load both sides whenever either picker changes, cancelling the previous comparison
+  useEffect(() => {
+    if (!session?.accessToken || sourceA === sourceB) return;
+    const accessToken = session.accessToken;
+    const controller = new AbortController();
+
+    const compare = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const a = await loadSide(accessToken, sourceA, playlists, controller.signal);
+        const b = await loadSide(accessToken, sourceB, playlists, controller.signal);
+        setSides([a, b]);
+        setComparison(comparePlaylists(a, b));
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error('Error comparing playlists:', error);
+        setError('Failed to compare these playlists. Please try again later.');
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    compare();
+    return () => controller.abort();
+  }, [session?.accessToken, sourceA, sourceB]);
+
+  const renderPicker = (value: string, onChange: (value: string) => void, color: string) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="flex-1 bg-gray-700 text-white rounded-md px-3 py-2 border-l-4"
+      style={{ borderColor: color }}
+    >
+      <option value={TOP_TRACKS}>Your top tracks</option>
+      {playlists.map(playlist => (
+        <option key={playlist.id} value={playlist.id}>{playlist.name}</option>
+      ))}
+    </select>
+  );
+
+  const [labelA, labelB] = sides ? [sides[0].label, sides[1].label] : ['A', 'B'];
+
+  return (
+    <div className="bg-gray-800/30 rounded-lg p-6">
+      {/* Side pickers */}
+      <div className="flex flex-col sm:flex-row gap-3 items-center mb-6">
+        {renderPicker(sourceA, setSourceA, COLORS.a)}
+        <span className="text-gray-400">vs</span>
+        {renderPicker(sourceB, setSourceB, COLORS.b)}
+      </div>
+
+      {sourceA === sourceB ? (
+        <p className="text-gray-400">Pick two different sources to compare.</p>
+      ) : loading ? (
+        <div className="flex justify-center p-12">
+          <FaSpinner className="animate-spin text-4xl text-purple-500" />
+        </div>
+      ) : error ? (
+        <div className="p-4 bg-red-900/30 border border-red-700 rounded-lg">
+          <p className="text-red-300">{error}</p>
+        </div>
+      ) : comparison && sides && (
+        <>
+          {/* Headline numbers */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <h3 className="text-lg font-semibold mb-2">Vibe Match</h3>
+              <p className="text-3xl font-bold text-purple-400">
+                {comparison.vibeMatch === null ? 'n/a' : `${comparison.vibeMatch}%`}
+              </p>
+              <p className="text-gray-400 text-sm">How close the average sounds are</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <h3 className="text-lg font-semibold mb-2">Track Overlap</h3>
+              <p className="text-3xl font-bold text-green-400">{percent(comparison.trackOverlap.jaccard)}</p>
+              <p className="text-gray-400 text-sm">{comparison.trackOverlap.shared} tracks in both (Jaccard similarity)</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <h3 className="text-lg font-semibold mb-2">Artist Overlap</h3>
+              <p className="text-3xl font-bold text-yellow-400">{percent(comparison.artistOverlap.jaccard)}</p>
+              <p className="text-gray-400 text-sm truncate" title={comparison.artistOverlap.sharedNames.join(', ')}>
+                {comparison.artistOverlap.shared} artists in both
+                {comparison.artistOverlap.sharedNames.length > 0 &&
+                  `: ${comparison.artistOverlap.sharedNames.slice(0, 3).join(', ')}`}
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
+            {/* Overlaid feature radars */}
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <h3 className="text-lg font-semibold mb-4">Audio Features</h3>
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <RadarChart cx="50%" cy="50%" outerRadius="75%" data={comparison.features}>
+                    <PolarGrid />
+                    <PolarAngleAxis dataKey="name" />
+                    <PolarRadiusAxis angle={30} domain={[0, 100]} />
+                    <Radar name={labelA} dataKey="a" stroke={COLORS.a} fill={COLORS.a} fillOpacity={0.4} />
+                    <Radar name={labelB} dataKey="b" stroke={COLORS.b} fill={COLORS.b} fillOpacity={0.4} />
+                    <Legend />
+                    <Tooltip />
+                  </RadarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* Genre differences */}
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <h3 className="text-lg font-semibold mb-1">Genre Differences</h3>
+              <p className="text-gray-400 text-sm mb-3">Share of each side&apos;s genres, biggest differences first</p>
+              {comparison.genres.length === 0 ? (
+                <p className="text-gray-500 text-sm">No genre information for these tracks.</p>
+              ) : (
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={comparison.genres} layout="vertical" margin={{ left: 40 }}>
+                      <XAxis type="number" unit="%" />
+                      <YAxis type="category" dataKey="name" width={110} />
+                      <Tooltip />
+                      <Legend />
+                      <Bar dataKey="a" name={labelA} fill={COLORS.a} />
+                      <Bar dataKey="b" name={labelB} fill={COLORS.b} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Tracks between the two */}
+          <div className="bg-gray-800/50 rounded-lg p-4">
+            <h3 className="text-lg font-semibold mb-1">In Between</h3>
+            <p className="text-gray-400 text-sm mb-4">Tracks whose sound is closest to both sides at once</p>
+            {comparison.between.length === 0 ? (
+              <p className="text-gray-500 text-sm">Not enough real audio features to place tracks between the two.</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {comparison.between.map(({ track, from, distanceA, distanceB }) => (
+                  <a
+                    key={track.id}
+                    href={track.external_urls?.spotify}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-3 p-2 bg-gray-900/50 rounded-md hover:bg-gray-700/50 transition-colors"
+                  >
+                    <div className="relative w-12 h-12 flex-shrink-0">
+                      <Image
+                        src={track.album?.images?.[0]?.url || '/placeholder.svg'}
+                        alt={track.name}
+                        fill
+                        className="rounded object-cover"
+                      />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium truncate">{track.name}</p>
+                      <p className="text-gray-400 text-sm truncate">
+                        {track.artists?.map(artist => artist.name).join(', ')}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        From {from === 'both' ? 'both' : from === 'a' ? labelA : labelB} •{' '}
+                        {percent(1 - distanceA)} / {percent(1 - distanceB)} match
+                      </p>
+                    </div>
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
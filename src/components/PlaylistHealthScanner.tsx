@@ -0,0 +1,177 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { FaCheckCircle, FaSpinner, FaTrash } from 'react-icons/fa';
+import { SpotifyForbiddenError, removePlaylistItems } from '@/lib/spotify';
+import { HEALTH_ISSUES, HealthIssueKind, PlaylistHealth } from '@/lib/playlist-health';
+
+// Reviews the health scanner's findings for a playlist and removes the
+// selected items. Exact duplicates start selected; everything else is opt-in.
+export default function PlaylistHealthScanner({
+  playlistId,
+  snapshotId,
+  health,
+  onChanged,
+}: {
+  playlistId: string;
+  snapshotId?: string | null;
+  health: PlaylistHealth;
+  // Called once items are gone from the playlist on Spotify, even only some of
+  // them, so it can be reloaded as it is now; `failed` is set when removal stopped partway
+  onChanged?: (message: string, failed?: boolean) => void;
+}) {
+  const { data: session } = useSession();
+  const [selected, setSelected] = useState<Set<number>>(
+    () => new Set(health.findings.filter(finding => finding.kind === 'duplicate').map(finding => finding.position))
+  );
+  const [confirming, setConfirming] = useState(false);
+  const [removing, setRemoving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The URI each removable position is removed by
+  const uris = new Map<number, string>();
+  health.findings.forEach(finding => {
+    if (finding.uri) uris.set(finding.position, finding.uri);
+  });
+
+  const toggle = (position: number) => {
+    setConfirming(false);
+    setSelected(previous => {
+      const next = new Set(previous);
+      if (next.has(position)) {
+        next.delete(position);
+      } else {
+        next.add(position);
+      }
+      return next;
+    });
+  };
+
+  const remove = async () => {
+    if (!session?.accessToken || selected.size === 0) return;
+
+    setRemoving(true);
+    setError(null);
+    let removed = 0;
+
+    try {
+      const items = Array.from(selected)
+        .filter(position => uris.has(position))
+        .map(position => ({ uri: uris.get(position)!, position }));
+      await removePlaylistItems(session.accessToken, playlistId, items, snapshotId, undefined, done => {
+        removed = done;
+      });
+      onChanged?.(`Removed ${items.length} ${items.length === 1 ? 'item' : 'items'} from this playlist.`);
+    } catch (error) {
+      console.error('Error removing playlist items:', error);
+      // Earlier batches went through, so these findings and the snapshot are out of date
+      if (removed > 0) {
+        onChanged?.(
+          `Removing stopped after ${removed} ${removed === 1 ? 'item' : 'items'}. The playlist below is reloaded as it is on Spotify now.`,
+          true
+        );
+        return;
+      }
+      setError(
+        error instanceof SpotifyForbiddenError
+          ? 'You can only remove tracks from playlists you own.'
+          : 'Failed to remove the selected tracks. The playlist may have changed since it was loaded; reload it and try again.'
+      );
+    } finally {
+      setRemoving(false);
+      setConfirming(false);
+    }
+  };
+
+  if (health.findings.length === 0) {
+    return (
+      <p className="text-sm text-green-300 flex items-center gap-2">
+        <FaCheckCircle />
+        No duplicates, unplayable or local tracks in {health.scanned} items.
+      </p>
+    );
+  }
+
+  const kinds = (Object.keys(HEALTH_ISSUES) as HealthIssueKind[]).filter(kind => health.counts[kind] > 0);
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        {kinds.map(kind => (
+          <div key={kind} className="bg-gray-900/50 rounded-md p-3">
+            <h4 className="font-medium">
+              {HEALTH_ISSUES[kind].label} <span className="text-gray-400">({health.counts[kind]})</span>
+            </h4>
+            <p className="text-xs text-gray-500 mb-2">{HEALTH_ISSUES[kind].description}</p>
+            <ul className="space-y-1 max-h-64 overflow-y-auto text-sm">
+              {health.findings
+                .filter(finding => finding.kind === kind)
+                .map(finding => (
+                  <li key={finding.position}>
+                    <label className={`flex items-start gap-2 ${finding.uri ? 'cursor-pointer' : 'opacity-60'}`}>
+                      <input
+                        type="checkbox"
+                        className="mt-1 accent-purple-600"
+                        checked={selected.has(finding.position)}
+                        disabled={!finding.uri || removing}
+                        onChange={() => toggle(finding.position)}
+                      />
+                      <span className="w-6 text-right text-gray-500">{finding.position + 1}</span>
+                      <span className="flex-1 min-w-0">
+                        <span className="block truncate">
+                          {finding.name}
+                          {finding.artist && <span className="text-gray-400"> • {finding.artist}</span>}
+                        </span>
+                        {finding.duplicateOf && (
+                          <span className="block text-xs text-gray-500 truncate">
+                            {finding.reason ? `${finding.reason}: ` : 'Same as '}#{finding.duplicateOf.position + 1}{' '}
+                            {finding.duplicateOf.name}
+                          </span>
+                        )}
+                      </span>
+                    </label>
+                  </li>
+                ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+      <div className="flex flex-wrap items-center gap-3">
+        {confirming ? (
+          <>
+            <span className="text-sm text-gray-300">
+              Remove {selected.size} {selected.size === 1 ? 'item' : 'items'} from this playlist on Spotify?
+            </span>
+            <button
+              onClick={remove}
+              disabled={removing}
+              className="flex items-center gap-2 bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {removing ? <FaSpinner className="animate-spin" /> : <FaTrash />}
+              Remove
+            </button>
+            <button
+              onClick={() => setConfirming(false)}
+              disabled={removing}
+              className="px-4 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => setConfirming(true)}
+            disabled={selected.size === 0}
+            className="flex items-center gap-2 bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FaTrash />
+            Remove Selected ({selected.size})
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { FaCheckCircle, FaExchangeAlt, FaSpinner } from 'react-icons/fa';
+import { SpotifyForbiddenError, movePlaylistItems } from '@/lib/spotify';
+import { MIN_OUTLIER_TRACKS, OutlierAnalysis } from '@/lib/outliers';
+
+interface TargetPlaylist {
+  id: string;
+  name: string;
+}
+
+// Lists the tracks that break a playlist's vibe, with the reasons, and moves
+// the selected ones to another playlist
+export default function PlaylistOutliers({
+  playlistId,
+  snapshotId,
+  analysis,
+  playlists,
+  onChanged,
+}: {
+  playlistId: string;
+  snapshotId?: string | null;
+  analysis: OutlierAnalysis;
+  // Playlists the user can edit, which the outliers can be moved to
+  playlists: TargetPlaylist[];
+  // Called once the move has changed a playlist on Spotify, even partly, so this one can
+  // be reloaded as it is now; `failed` is set when the move stopped partway
+  onChanged?: (message: string, failed?: boolean) => void;
+}) {
+  const { data: session } = useSession();
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [targetId, setTargetId] = useState(playlists[0]?.id || '');
+  const [confirming, setConfirming] = useState(false);
+  const [moving, setMoving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const target = playlists.find(playlist => playlist.id === targetId);
+
+  const toggle = (position: number) => {
+    setConfirming(false);
+    setSelected(previous => {
+      const next = new Set(previous);
+      if (next.has(position)) {
+        next.delete(position);
+      } else {
+        next.add(position);
+      }
+      return next;
+    });
+  };
+
+  const move = async () => {
+    if (!session?.accessToken || !target || selected.size === 0) return;
+
+    setMoving(true);
+    setError(null);
+    let progress = { added: 0, removed: 0 };
+    const count = (n: number) => `${n} ${n === 1 ? 'track' : 'tracks'}`;
+
+    try {
+      const items = analysis.outliers
+        .filter(outlier => selected.has(outlier.track.position))
+        .map(outlier => ({ uri: outlier.track.uri, position: outlier.track.position }));
+      await movePlaylistItems(session.accessToken, playlistId, target.id, items, snapshotId, undefined, (added, removed) => {
+        progress = { added, removed };
+      });
+      onChanged?.(`Moved ${count(items.length)} to ${target.name}.`);
+    } catch (error) {
+      console.error('Error moving outliers:', error);
+      // Some tracks were copied or removed already, so reload to show where they are now
+      if (progress.added > 0) {
+        onChanged?.(
+          `Moving stopped partway: ${count(progress.added)} added to ${target.name}, ${count(progress.removed)} removed from this playlist. ` +
+            'Tracks added but not removed are in both playlists; the playlist below is reloaded as it is on Spotify now.',
+          true
+        );
+        return;
+      }
+      setError(
+        error instanceof SpotifyForbiddenError
+          ? 'You can only move tracks between playlists you can edit.'
+          : 'Failed to move the selected tracks. Nothing was changed; try again.'
+      );
+    } finally {
+      setMoving(false);
+      setConfirming(false);
+    }
+  };
+
+  if (analysis.analyzed < MIN_OUTLIER_TRACKS) {
+    return (
+      <p className="text-gray-400 text-sm">
+        Outlier detection needs at least {MIN_OUTLIER_TRACKS} tracks with audio features.
+      </p>
+    );
+  }
+
+  if (analysis.outliers.length === 0) {
+    return (
+      <p className="text-sm text-green-300 flex items-center gap-2">
+        <FaCheckCircle />
+        No track stands out from the rest of this playlist.
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <ul className="space-y-3 mb-4">
+        {analysis.outliers.map(({ track, distance, reasons }) => (
+          <li key={track.position} className="bg-gray-900/50 rounded-md p-3">
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                className="mt-1 accent-purple-600"
+                checked={selected.has(track.position)}
+                disabled={moving}
+                onChange={() => toggle(track.position)}
+              />
+              <span className="flex-1 min-w-0">
+                <span className="flex justify-between gap-2">
+                  <span className="font-medium truncate">
+                    {track.name} <span className="text-gray-400 font-normal">• {track.artist}</span>
+                  </span>
+                  <span className="text-xs text-gray-500 whitespace-nowrap" title="Distance from the playlist's average sound">
+                    {Math.round(distance * 100)}% off
+                  </span>
+                </span>
+                <span className="block text-sm text-gray-400">{reasons.join('; ')}</span>
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+      {playlists.length === 0 ? (
+        <p className="text-gray-500 text-sm">Create or join another playlist you can edit to move outliers to.</p>
+      ) : (
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={targetId}
+            onChange={(e) => {
+              setTargetId(e.target.value);
+              setConfirming(false);
+            }}
+            disabled={moving}
+            className="bg-gray-700 text-white rounded-md px-3 py-2"
+          >
+            {playlists.map(playlist => (
+              <option key={playlist.id} value={playlist.id}>{playlist.name}</option>
+            ))}
+          </select>
+          {confirming ? (
+            <>
+              <span className="text-sm text-gray-300">
+                Move {selected.size} {selected.size === 1 ? 'track' : 'tracks'} to {target?.name}?
+              </span>
+              <button
+                onClick={move}
+                disabled={moving}
+                className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {moving ? <FaSpinner className="animate-spin" /> : <FaExchangeAlt />}
+                Move
+              </button>
+              <button
+                onClick={() => setConfirming(false)}
+                disabled={moving}
+                className="px-4 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+              >
+                Cancel
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setConfirming(true)}
+              disabled={selected.size === 0 || !target}
+              className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FaExchangeAlt />
+              Move Selected ({selected.size})
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { FaRandom, FaSave, FaSpinner, FaSpotify } from 'react-icons/fa';
+import { SpotifyForbiddenError, applyPlaylistOrder } from '@/lib/spotify';
+import {
+  ENERGY_CURVES,
+  EnergyCurve,
+  SequencerTrack,
+  TransitionScore,
+  camelotCode,
+  formatCamelot,
+  scoreSequence,
+  sequenceTracks
+} from '@/lib/sequencer';
+
+// A sequenceable track and its position in the playlist
+export type PlaylistSequencerTrack = SequencerTrack & { position: number };
+
+function scoreColor(score: number) {
+  return score >= 0.75 ? 'text-green-400' : score >= 0.5 ? 'text-yellow-400' : 'text-red-400';
+}
+
+function transitionTitle(score: TransitionScore) {
+  return `Key ${Math.round(score.key * 100)}% • Tempo ${Math.round(score.tempo * 100)}% • Energy curve ${Math.round(score.energy * 100)}%`;
+}
+
+// One column of tracks with the score of each transition between them
+function SequenceList({ title, tracks, curve }: { title: string; tracks: PlaylistSequencerTrack[]; curve: EnergyCurve }) {
+  const { transitions, average } = scoreSequence(tracks, curve);
+
+  return (
+    <div className="bg-gray-900/50 rounded-md p-3">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="font-medium">{title}</h4>
+        <span className={`text-sm font-semibold ${scoreColor(average)}`}>
+          {Math.round(average * 100)}% smooth
+        </span>
+      </div>
+      <ol className="space-y-1 max-h-96 overflow-y-auto text-sm">
+        {tracks.map((track, i) => (
+          <li key={track.position}>
+            {i > 0 && (
+              <p className={`text-xs pl-6 ${scoreColor(transitions[i - 1].total)}`} title={transitionTitle(transitions[i - 1])}>
+                ↓ {Math.round(transitions[i - 1].total * 100)}%
+              </p>
+            )}
+            <div className="flex items-center gap-2">
+              <span className="w-5 text-right text-gray-500">{i + 1}</span>
+              <span className="flex-1 min-w-0 truncate">
+                {track.name} <span className="text-gray-400">• {track.artist}</span>
+              </span>
+              <span className="text-xs text-gray-400 whitespace-nowrap">
+                {formatCamelot(camelotCode(track.features.key, track.features.mode))} • {Math.round(track.features.tempo)} BPM • E{' '}
+                {Math.round(track.features.energy * 100)}
+              </span>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+// Reorders a playlist for smooth DJ-style transitions and can write the new
+// order back to Spotify. Items that can't be sequenced (local files,
+// unavailable tracks) are moved after the sequenced tracks.
+export default function PlaylistSequencer({
+  playlistId,
+  snapshotId,
+  tracks,
+  totalItems,
+  onChanged,
+}: {
+  playlistId: string;
+  snapshotId?: string | null;
+  tracks: PlaylistSequencerTrack[];
+  totalItems: number;
+  // Called once the order on Spotify has changed, even partly, so the playlist can be
+  // reloaded as it is now; `failed` is set when saving stopped partway
+  onChanged?: (message: string, failed?: boolean) => void;
+}) {
+  const { data: session } = useSession();
+  const [curve, setCurve] = useState<EnergyCurve>('build-up');
+  const [current, setCurrent] = useState(tracks);
+  const [snapshot, setSnapshot] = useState(snapshotId ?? null);
+  const [saving, setSaving] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const suggested = useMemo(() => sequenceTracks(current, curve), [current, curve]);
+  const unchanged = suggested.every((track, i) => track.position === current[i].position);
+  const unsequenced = totalItems - tracks.length;
+
+  const save = async () => {
+    if (!session?.accessToken || unchanged) return;
+
+    // Every playlist position in its new order: sequenced tracks first, then the rest as they were
+    const sequenced = new Set(suggested.map(track => track.position));
+    const order = [
+      ...suggested.map(track => track.position),
+      ...Array.from({ length: totalItems }, (_, position) => position).filter(position => !sequenced.has(position))
+    ];
+
+    setSaving(true);
+    setError(null);
+    setSaved(false);
+    let moved = 0;
+
+    try {
+      const newSnapshot = await applyPlaylistOrder(
+        session.accessToken,
+        playlistId,
+        order,
+        snapshot,
+        undefined,
+        (done, total) => {
+          moved = done;
+          setProgress({ done, total });
+        }
+      );
+      setSnapshot(newSnapshot);
+      setCurrent(suggested.map((track, position) => ({ ...track, position })));
+      setSaved(true);
+      onChanged?.('New order saved to Spotify.');
+    } catch (error) {
+      console.error('Error saving playlist order:', error);
+      // Some moves went through, so the current order shown here is no longer the playlist's
+      if (moved > 0) {
+        onChanged?.(`Saving the new order stopped after ${moved} ${moved === 1 ? 'move' : 'moves'}. The playlist below is reloaded as it is on Spotify now.`, true);
+        return;
+      }
+      setError(
+        error instanceof SpotifyForbiddenError
+          ? 'You can only reorder playlists you own.'
+          : 'Failed to save the new order. The playlist may have changed since it was loaded; reload it and try again.'
+      );
+    } finally {
+      setSaving(false);
+      setProgress(null);
+    }
+  };
+
+  if (current.length < 3) {
+    return <p className="text-gray-400 text-sm">The sequencer needs at least three tracks with audio features.</p>;
+  }
+
+  return (
+    <div>
+      {/* Target energy curve */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {(Object.keys(ENERGY_CURVES) as EnergyCurve[]).map(option => (
+          <button
+            key={option}
+            onClick={() => {
+              setCurve(option);
+              setSaved(false);
+            }}
+            title={ENERGY_CURVES[option].description}
+            className={`px-3 py-1 rounded-full text-sm ${
+              curve === option ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {ENERGY_CURVES[option].label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <SequenceList title="Current order" tracks={current} curve={curve} />
+        <SequenceList title="Suggested order" tracks={suggested} curve={curve} />
+      </div>
+
+      <p className="text-xs text-gray-500 mb-3">
+        Transitions are scored on Camelot key compatibility, tempo difference and how closely the next track follows
+        the {ENERGY_CURVES[curve].label.toLowerCase()} energy curve.
+        {unsequenced > 0 && ` ${unsequenced} local, unavailable or unanalyzed items will be moved to the end.`}
+      </p>
+
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+      <div className="flex items-center gap-3">
+        <button
+          onClick={save}
+          disabled={saving || unchanged}
+          className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? <FaSpinner className="animate-spin" /> : <FaSave />}
+          Save Order to Spotify
+        </button>
+        {progress && (
+          <span className="text-sm text-gray-400">
+            Moving {progress.done} of {progress.total} tracks...
+          </span>
+        )}
+        {!saving && unchanged && !saved && (
+          <span className="text-sm text-gray-400 flex items-center gap-2">
+            <FaRandom />
+            Already in the best order found for this curve
+          </span>
+        )}
+        {saved && (
+          <span className="text-sm text-green-300 flex items-center gap-2">
+            <FaSpotify />
+            New order saved to Spotify
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
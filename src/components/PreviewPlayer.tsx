@@ -0,0 +1,239 @@
+'use client';
+
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { FaPause, FaPlay, FaSpotify, FaStepBackward, FaStepForward, FaTimes, FaVolumeMute } from 'react-icons/fa';
+
+// Any Spotify track object works; these are the fields the player reads
+export interface PreviewTrack {
+  id: string | null;
+  name: string;
+  artists: { name: string }[];
+  album?: { images: { url: string }[] };
+  preview_url?: string | null;
+  external_urls?: { spotify?: string };
+}
+
+interface PreviewPlayerState {
+  current: PreviewTrack | null;
+  playing: boolean;
+  // Queue a grid's tracks and start at `index`; pressing play on the current track pauses it
+  play: (tracks: PreviewTrack[], index: number) => void;
+}
+
+const PreviewPlayerContext = createContext<PreviewPlayerState | null>(null);
+
+export function hasPreview(track?: PreviewTrack | null): boolean {
+  return !!track?.preview_url;
+}
+
+// Index of the next track with a preview in `step` direction, or null at the end of the queue
+function findPlayable(queue: PreviewTrack[], from: number, step: 1 | -1): number | null {
+  for (let i = from + step; i >= 0 && i < queue.length; i += step) {
+    if (hasPreview(queue[i])) return i;
+  }
+  return null;
+}
+
+export function usePreviewPlayer() {
+  return useContext(PreviewPlayerContext);
+}
+
+// Plays 30-second previews in the page. Wrap the dashboard in it, then drop a
+// <PreviewButton> on each track card; the player bar shows while something is queued.
+export default function PreviewPlayer({ children }: { children: React.ReactNode }) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [queue, setQueue] = useState<PreviewTrack[]>([]);
+  const [index, setIndex] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const current = index !== null ? queue[index] || null : null;
+  const previousIndex = index !== null ? findPlayable(queue, index, -1) : null;
+  const nextIndex = index !== null ? findPlayable(queue, index, 1) : null;
+
+  // Start the current preview whenever the queue position changes
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    setProgress(0);
+    if (!current?.preview_url) {
+      audio.pause();
+      return;
+    }
+
+    audio.src = current.preview_url;
+    audio.play().catch(error => {
+      // Starting another preview interrupts this one; that's not an error
+      if (error?.name === 'AbortError') return;
+      console.error('Error playing preview:', error);
+      setError('Your browser blocked playback. Press play to start the preview.');
+    });
+  }, [queue, index]);
+
+  // Don't keep playing after the dashboard goes away
+  useEffect(() => {
+    const audio = audioRef.current;
+    return () => audio?.pause();
+  }, []);
+
+  const play = (tracks: PreviewTrack[], start: number) => {
+    const track = tracks[start];
+    if (!hasPreview(track)) return;
+
+    const audio = audioRef.current;
+    if (current && track.id === current.id && audio) {
+      if (audio.paused) {
+        audio.play().catch(error => console.error('Error playing preview:', error));
+      } else {
+        audio.pause();
+      }
+      return;
+    }
+
+    setError(null);
+    setQueue(tracks);
+    setIndex(start);
+  };
+
+  const stop = () => {
+    audioRef.current?.pause();
+    setIndex(null);
+    setError(null);
+  };
+
+  return (
+    <PreviewPlayerContext.Provider value={{ current, playing, play }}>
+      {children}
+
+      <audio
+        ref={audioRef}
+        onPlay={() => {
+          setPlaying(true);
+          setError(null);
+        }}
+        onPause={() => setPlaying(false)}
+        onEnded={() => (nextIndex !== null ? setIndex(nextIndex) : setPlaying(false))}
+        onTimeUpdate={(e) => {
+          const { currentTime, duration } = e.currentTarget;
+          setProgress(duration ? currentTime / duration : 0);
+        }}
+        onError={() => current && setError("This preview couldn't be loaded.")}
+      />
+
+      {current && (
+        <>
+          {/* Keeps the fixed bar from covering the end of the page */}
+          <div className="h-24" />
+
+          <div className="fixed bottom-0 inset-x-0 z-50 bg-gray-900/95 border-t border-gray-700 backdrop-blur">
+            <div className="h-1 bg-gray-700">
+              <div className="h-1 bg-green-500 transition-all" style={{ width: `${progress * 100}%` }} />
+            </div>
+            <div className="max-w-6xl mx-auto flex items-center gap-4 px-4 py-3">
+              <div className="relative w-12 h-12 flex-shrink-0">
+                <Image
+                  src={current.album?.images[0]?.url || '/placeholder.svg'}
+                  alt={current.name}
+                  fill
+                  className="rounded object-cover"
+                />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold truncate">{current.name}</p>
+                <p className="text-gray-400 text-sm truncate">
+                  {error || current.artists.map(artist => artist.name).join(', ')}
+                </p>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => previousIndex !== null && setIndex(previousIndex)}
+                  disabled={previousIndex === null}
+                  className="text-gray-300 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                  title="Previous preview"
+                >
+                  <FaStepBackward />
+                </button>
+                <button
+                  onClick={() => play(queue, index!)}
+                  className="w-10 h-10 flex items-center justify-center rounded-full bg-green-600 hover:bg-green-700 text-white"
+                  title={playing ? 'Pause' : 'Play'}
+                >
+                  {playing ? <FaPause /> : <FaPlay className="ml-0.5" />}
+                </button>
+                <button
+                  onClick={() => nextIndex !== null && setIndex(nextIndex)}
+                  disabled={nextIndex === null}
+                  className="text-gray-300 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                  title="Next preview"
+                >
+                  <FaStepForward />
+                </button>
+              </div>
+
+              <span className="hidden sm:block text-xs text-gray-500 w-16 text-right">
+                {index! + 1} / {queue.length}
+              </span>
+              {current.external_urls?.spotify && (
+                <a
+                  href={current.external_urls.spotify}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-green-400 hover:text-green-300"
+                  title="Open in Spotify"
+                >
+                  <FaSpotify />
+                </a>
+              )}
+              <button onClick={stop} className="text-gray-400 hover:text-white" title="Close player">
+                <FaTimes />
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </PreviewPlayerContext.Provider>
+  );
+}
+
+// Play/pause button for a track card. `tracks` becomes the queue, so next,
+// previous and auto-advance follow the grid's order. Renders nothing outside a PreviewPlayer.
+export function PreviewButton({
+  tracks,
+  index,
+  className = '',
+}: {
+  tracks: PreviewTrack[];
+  index: number;
+  className?: string;
+}) {
+  const player = usePreviewPlayer();
+  if (!player) return null;
+
+  const track = tracks[index];
+  const available = hasPreview(track);
+  const isCurrent = !!track && !!player.current && player.current.id === track.id;
+
+  return (
+    <button
+      onClick={(e) => {
+        // Cards are links to Spotify; playing a preview shouldn't open them
+        e.preventDefault();
+        e.stopPropagation();
+        player.play(tracks, index);
+      }}
+      disabled={!available}
+      title={available ? (isCurrent && player.playing ? 'Pause preview' : 'Play 30-second preview') : 'No preview available'}
+      className={`w-10 h-10 flex items-center justify-center rounded-full shadow-lg transition-colors ${
+        available
+          ? 'bg-green-600 hover:bg-green-700 text-white'
+          : 'bg-gray-700/90 text-gray-400 cursor-not-allowed'
+      } ${className}`}
+    >
+      {!available ? <FaVolumeMute /> : isCurrent && player.playing ? <FaPause /> : <FaPlay className="ml-0.5" />}
+    </button>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { FaSave, FaSpinner, FaSpotify } from 'react-icons/fa';
+import { addTracksToPlaylist, createPlaylist, playlistTrackUris } from '@/lib/spotify';
+
+interface CreatedPlaylist {
+  id: string;
+  name: string;
+  url: string;
+  // URIs already added, so a retry only adds the rest
+  added: number;
+}
+
+interface SaveResult {
+  name: string;
+  url: string;
+  added: number;
+  skipped: number;
+}
+
+// "Save as playlist" action: asks for a name, description and visibility, then
+// writes the tracks to a new playlist. Tracks without a Spotify URI are skipped.
+export default function SavePlaylist({
+  tracks,
+  defaultName,
+  defaultDescription = '',
+}: {
+  tracks: { id: string | null; uri?: string; is_local?: boolean }[];
+  defaultName: string;
+  defaultDescription?: string;
+}) {
+  const { data: session } = useSession();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(defaultName);
+  const [description, setDescription] = useState(defaultDescription);
+  const [isPublic, setIsPublic] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<SaveResult | null>(null);
+  // Kept when adding the tracks fails, so saving again fills this playlist instead of creating another
+  const [created, setCreated] = useState<CreatedPlaylist | null>(null);
+
+  const { uris, skipped } = playlistTrackUris(tracks);
+
+  const openForm = () => {
+    setName(defaultName);
+    setDescription(defaultDescription);
+    setError(null);
+    setResult(null);
+    setOpen(true);
+  };
+
+  const save = async () => {
+    if (!session?.accessToken || !name.trim() || !uris.length) return;
+
+    setSaving(true);
+    setError(null);
+
+    let playlist = created;
+    try {
+      if (!playlist) {
+        const data = await createPlaylist(session.accessToken, {
+          name: name.trim(),
+          description: description.trim(),
+          public: isPublic,
+        });
+        playlist = { id: data.id, name: data.name, url: data.external_urls?.spotify, added: 0 };
+      }
+
+      const start = playlist.added;
+      await addTracksToPlaylist(session.accessToken, playlist.id, uris.slice(start), undefined, added => {
+        playlist = { ...playlist!, added: start + added };
+      });
+
+      setCreated(null);
+      setResult({ name: playlist.name, url: playlist.url, added: uris.length, skipped });
+      setOpen(false);
+    } catch (error) {
+      console.error('Error saving playlist:', error);
+      setCreated(playlist);
+      setError(
+        playlist
+          ? `Created "${playlist.name}" but couldn't add all the tracks to it. Save again to add the rest.`
+          : 'Failed to save the playlist. Check that you granted playlist permissions and try again.'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      {!open && (
+        <button
+          onClick={openForm}
+          disabled={!uris.length}
+          className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <FaSave />
+          Save as Playlist
+        </button>
+      )}
+
+      {open && (
+        <div className="p-4 bg-gray-800/50 rounded-lg space-y-3">
+          <h3 className="text-lg font-semibold">Save as Playlist</h3>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Playlist name"
+            maxLength={100}
+            className="w-full bg-gray-700 text-white rounded-md px-3 py-2"
+          />
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (optional)"
+            maxLength={300}
+            rows={2}
+            className="w-full bg-gray-700 text-white rounded-md px-3 py-2 text-sm"
+          />
+          <div className="flex gap-4 text-sm">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" checked={!isPublic} onChange={() => setIsPublic(false)} className="accent-purple-600" />
+              Private
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" checked={isPublic} onChange={() => setIsPublic(true)} className="accent-purple-600" />
+              Public
+            </label>
+          </div>
+          <p className="text-sm text-gray-400">
+            {uris.length} tracks will be saved
+            {skipped > 0 && `; ${skipped} can't be added to Spotify playlists and will be skipped`}.
+          </p>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={save}
+              disabled={saving || !name.trim()}
+              className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? <FaSpinner className="animate-spin" /> : <FaSave />}
+              Save
+            </button>
+            <button
+              onClick={() => setOpen(false)}
+              disabled={saving}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-md transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <p className="mt-2 text-sm text-green-300 flex items-center gap-2">
+          <FaSpotify />
+          Saved {result.added} tracks to{' '}
+          {result.url ? (
+            <a href={result.url} target="_blank" rel="noopener noreferrer" className="underline">{result.name}</a>
+          ) : (
+            result.name
+          )}
+          {result.skipped > 0 && ` (${result.skipped} skipped)`}
+        </p>
+      )}
+    </div>
+  );
+}
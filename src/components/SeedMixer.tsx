@@ -0,0 +1,133 @@
+'use client';
+
+import React, { useState } from 'react';
+import { FaTimes } from 'react-icons/fa';
+import { MAX_SEEDS, Seed, SeedType, planSeeds } from '@/lib/seed-planner';
+
+interface SeedOption {
+  id: string;
+  label: string;
+}
+
+const PRIORITIES = [
+  { value: 3, label: 'High' },
+  { value: 2, label: 'Medium' },
+  { value: 1, label: 'Low' },
+];
+
+const TYPE_STYLES: Record<SeedType, string> = {
+  track: 'bg-green-600/30 text-green-300',
+  artist: 'bg-purple-600/30 text-purple-300',
+  genre: 'bg-yellow-600/30 text-yellow-300',
+};
+
+// Build a mix of track, artist and genre seeds with priorities. Seeds that
+// don't fit Spotify's 5-seed budget are shown as left out.
+export default function SeedMixer({
+  trackOptions,
+  artistOptions,
+  genreOptions,
+  onSubmit,
+  disabled = false,
+}: {
+  trackOptions: SeedOption[];
+  artistOptions: SeedOption[];
+  genreOptions: string[];
+  onSubmit: (seeds: Seed[]) => void;
+  disabled?: boolean;
+}) {
+  const [seeds, setSeeds] = useState<Seed[]>([]);
+
+  const plan = planSeeds(seeds);
+  const planned = new Set(plan.seeds.map(seed => `${seed.type}:${seed.id}`));
+
+  const addSeed = (type: SeedType, id: string, label: string) => {
+    if (!id || seeds.some(seed => seed.type === type && seed.id === id)) return;
+    setSeeds([...seeds, { type, id, label, priority: 2 }]);
+  };
+
+  const updatePriority = (index: number, priority: number) => {
+    setSeeds(seeds.map((seed, i) => (i === index ? { ...seed, priority } : seed)));
+  };
+
+  const renderPicker = (type: SeedType, placeholder: string, options: SeedOption[]) => (
+    <select
+      value=""
+      onChange={(e) => {
+        const option = options.find(candidate => candidate.id === e.target.value);
+        if (option) addSeed(type, option.id, option.label);
+      }}
+      disabled={!options.length}
+      className="bg-gray-700 text-white rounded-md px-3 py-2 text-sm disabled:opacity-50"
+    >
+      <option value="">{placeholder}</option>
+      {options.map(option => (
+        <option key={option.id} value={option.id}>{option.label}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="mb-8 p-4 bg-gray-800/50 rounded-lg">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold">Mix Seeds</h3>
+        <span className={`text-sm ${seeds.length > MAX_SEEDS ? 'text-yellow-300' : 'text-gray-400'}`}>
+          {plan.seeds.length}/{MAX_SEEDS} seeds
+        </span>
+      </div>
+      <p className="text-sm text-gray-400 mb-3">
+        Combine tracks, artists and genres. Spotify takes up to {MAX_SEEDS} seeds, so the highest
+        priorities are used first, and the lowest-priority seed is dropped if a blend doesn&apos;t work.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {renderPicker('track', 'Add a top track…', trackOptions)}
+        {renderPicker('artist', 'Add a top artist…', artistOptions)}
+        {renderPicker('genre', 'Add a genre…', genreOptions.map(genre => ({ id: genre, label: genre })))}
+      </div>
+
+      {seeds.length > 0 && (
+        <ul className="space-y-2 mb-4">
+          {seeds.map((seed, index) => {
+            const included = planned.has(`${seed.type}:${seed.id}`);
+            return (
+              <li
+                key={`${seed.type}:${seed.id}`}
+                className={`flex items-center gap-3 p-2 bg-gray-900/50 rounded-md ${included ? '' : 'opacity-50'}`}
+              >
+                <span className={`text-xs uppercase px-2 py-0.5 rounded ${TYPE_STYLES[seed.type]}`}>{seed.type}</span>
+                <span className="flex-1 truncate">{seed.label || seed.id}</span>
+                {!included && <span className="text-xs text-yellow-300">over budget</span>}
+                <select
+                  value={seed.priority}
+                  onChange={(e) => updatePriority(index, Number(e.target.value))}
+                  className="bg-gray-700 text-white rounded px-2 py-1 text-xs"
+                  title="Priority"
+                >
+                  {PRIORITIES.map(priority => (
+                    <option key={priority.value} value={priority.value}>{priority.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setSeeds(seeds.filter((_, i) => i !== index))}
+                  className="text-gray-400 hover:text-white"
+                  title="Remove seed"
+                >
+                  <FaTimes />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <button
+        onClick={() => onSubmit(seeds)}
+        disabled={disabled || plan.seeds.length === 0}
+        className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Get Mixed Recommendations
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { FaChevronDown, FaChevronUp, FaThumbsDown, FaThumbsUp, FaTimes, FaTrash } from 'react-icons/fa';
+import { describeTrackForFeedback, isAbortError } from '@/lib/spotify';
+import { FeedbackRating, TrackFeedback, clearFeedback, fetchFeedback, saveFeedback } from '@/lib/feedback';
+
+interface RateableTrack {
+  id: string;
+  name: string;
+  artists: { id?: string | null; name: string }[];
+  external_ids?: { isrc?: string };
+}
+
+export type TrackFeedbackState = ReturnType<typeof useTrackFeedback>;
+
+// Loads the signed-in user's feedback and keeps it in sync with /api/feedback.
+// `loaded` turns true once the first load finished (or failed), so pages can
+// wait for it before their first recommendation request.
+export function useTrackFeedback() {
+  const { data: session, status } = useSession();
+  const [feedback, setFeedback] = useState<TrackFeedback[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [pending, setPending] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status !== 'authenticated') return;
+    const controller = new AbortController();
+
+    fetchFeedback(controller.signal)
+      .then(setFeedback)
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Error loading feedback:', error);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoaded(true);
+      });
+
+    return () => controller.abort();
+  }, [status]);
+
+  // Run a feedback change for one track (or all, with an empty ID) and show its result
+  const update = async (trackId: string, change: () => Promise<TrackFeedback[]>) => {
+    setPending(current => [...current, trackId]);
+    setError(null);
+    try {
+      setFeedback(await change());
+    } catch (error) {
+      console.error('Error saving feedback:', error);
+      setError('Could not save your feedback. Please try again.');
+    } finally {
+      setPending(current => current.filter(id => id !== trackId));
+    }
+  };
+
+  const ratingFor = (trackId: string): FeedbackRating | null =>
+    feedback.find(entry => entry.trackId === trackId)?.rating || null;
+
+  // Rating a track the same way twice takes the rating back
+  const rate = (track: RateableTrack, rating: FeedbackRating) => {
+    if (!session?.accessToken) return;
+    const accessToken = session.accessToken;
+
+    return update(track.id, async () =>
+      ratingFor(track.id) === rating
+        ? clearFeedback(track.id)
+        : saveFeedback(await describeTrackForFeedback(accessToken, track, rating))
+    );
+  };
+
+  const remove = (trackId: string) => update(trackId, () => clearFeedback(trackId));
+  const clear = () => update('', () => clearFeedback());
+
+  return { feedback, loaded, pending, error, ratingFor, rate, remove, clear };
+}
+
+// Thumbs up/down for a recommended track card
+export function FeedbackButtons({
+  track,
+  state,
+  className = '',
+}: {
+  track: RateableTrack;
+  state: TrackFeedbackState;
+  className?: string;
+}) {
+  const rating = state.ratingFor(track.id);
+  const busy = state.pending.includes(track.id);
+
+  const renderButton = (value: FeedbackRating) => {
+    const active = rating === value;
+    const Icon = value === 'like' ? FaThumbsUp : FaThumbsDown;
+    return (
+      <button
+        onClick={(e) => {
+          // Cards are links to Spotify; rating a track shouldn't open them
+          e.preventDefault();
+          e.stopPropagation();
+          state.rate(track, value);
+        }}
+        disabled={busy}
+        title={active ? 'Remove rating' : value === 'like' ? 'More like this' : 'Less like this'}
+        className={`p-2 rounded-full transition-colors disabled:opacity-50 ${
+          active
+            ? value === 'like' ? 'bg-green-600 text-white' : 'bg-red-600 text-white'
+            : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+        }`}
+      >
+        <Icon className="text-xs" />
+      </button>
+    );
+  };
+
+  return (
+    <div className={`flex gap-2 ${className}`}>
+      {renderButton('like')}
+      {renderButton('dislike')}
+    </div>
+  );
+}
+
+// Collapsible list of everything the user rated, with remove and clear actions
+export function FeedbackHistory({ state }: { state: TrackFeedbackState }) {
+  const [open, setOpen] = useState(false);
+  const likes = state.feedback.filter(entry => entry.rating === 'like').length;
+
+  return (
+    <div className="mb-8 bg-gray-800/50 rounded-lg">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <span className="flex items-center gap-2 font-semibold">
+          <FaThumbsUp className="text-green-400" />
+          Your Feedback
+          <span className="text-xs text-gray-400 font-normal">
+            {likes} liked, {state.feedback.length - likes} disliked
+          </span>
+        </span>
+        {open ? <FaChevronUp /> : <FaChevronDown />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4">
+          <p className="text-sm text-gray-400 mb-3">
+            New recommendations skip tracks you disliked, rank disliked artists and genres lower,
+            and lean toward the sound of tracks you liked.
+          </p>
+          {state.error && <p className="text-sm text-red-400 mb-3">{state.error}</p>}
+
+          {state.feedback.length === 0 ? (
+            <p className="text-sm text-gray-500">Rate recommendations with the thumbs buttons to tune future picks.</p>
+          ) : (
+            <>
+              <ul className="space-y-2 mb-4 max-h-72 overflow-y-auto">
+                {state.feedback.map(entry => (
+                  <li key={entry.trackId} className="flex items-center gap-3 p-2 bg-gray-900/50 rounded-md">
+                    {entry.rating === 'like'
+                      ? <FaThumbsUp className="text-green-400 flex-shrink-0" />
+                      : <FaThumbsDown className="text-red-400 flex-shrink-0" />}
+                    <span className="flex-1 min-w-0">
+                      <span className="block truncate">{entry.name}</span>
+                      <span className="block text-xs text-gray-400 truncate">
+                        {entry.artists.map(artist => artist.name).join(', ')}
+                        {entry.genres.length > 0 && ` • ${entry.genres.slice(0, 3).join(', ')}`}
+                      </span>
+                    </span>
+                    <span className="text-xs text-gray-500 hidden sm:block">
+                      {new Date(entry.createdAt).toLocaleDateString()}
+                    </span>
+                    <button
+                      onClick={() => state.remove(entry.trackId)}
+                      disabled={state.pending.includes(entry.trackId)}
+                      className="text-gray-400 hover:text-white disabled:opacity-50"
+                      title="Remove rating"
+                    >
+                      <FaTimes />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <button
+                onClick={() => {
+                  if (window.confirm('Clear all of your recommendation feedback?')) state.clear();
+                }}
+                disabled={state.pending.length > 0}
+                className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-md transition-colors disabled:opacity-50"
+              >
+                <FaTrash />
+                Clear History
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
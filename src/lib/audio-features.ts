@@ -0,0 +1,392 @@
+// Audio feature providers.
+// Spotify's /audio-features endpoint is often unavailable to apps in
+// Development Mode, so features can also come from a local dataset or a
+// neutral fallback. Every feature set records which provider produced it.
+
+export type AudioFeatureSource = 'spotify' | 'dataset' | 'fallback';
+
+// Everything /audio-features returns for a track, apart from its URLs
+export interface AudioFeatureValues {
+  danceability: number;
+  energy: number;
+  valence: number;
+  // Beats per minute
+  tempo: number;
+  acousticness: number;
+  instrumentalness: number;
+  speechiness: number;
+  liveness: number;
+  // Decibels, roughly -60 to 0
+  loudness: number;
+  // Pitch class, 0 = C ... 11 = B, -1 when no key was detected
+  key: number;
+  // 1 = major, 0 = minor
+  mode: number;
+  // Beats per bar, 3 to 7
+  time_signature: number;
+  duration_ms: number;
+}
+
+export interface AudioFeatures extends AudioFeatureValues {
+  id: string;
+  source: AudioFeatureSource;
+}
+
+export type AudioFeatureKey = keyof AudioFeatureValues;
+
+// Anything with a track ID and, optionally, an ISRC and duration. Spotify track objects fit as-is.
+export interface FeatureLookupTrack {
+  id: string;
+  external_ids?: { isrc?: string };
+  duration_ms?: number;
+}
+
+export interface AudioFeatureProvider {
+  readonly source: AudioFeatureSource;
+  // Returns one entry per track, null for tracks this provider can't answer
+  getFeatures(
+    accessToken: string,
+    tracks: FeatureLookupTrack[],
+    signal?: AbortSignal
+  ): Promise<(AudioFeatures | null)[]>;
+}
+
+export const FEATURE_SOURCE_LABELS: Record<AudioFeatureSource, string> = {
+  spotify: 'Spotify',
+  dataset: 'local dataset',
+  fallback: 'neutral estimate'
+};
+
+const FEATURE_KEYS: AudioFeatureKey[] = [
+  'danceability', 'energy', 'valence', 'tempo', 'acousticness', 'instrumentalness',
+  'speechiness', 'liveness', 'loudness', 'key', 'mode', 'time_signature', 'duration_ms'
+];
+
+// Neutral values used when no provider knows a track. Features without a
+// meaningful middle get typical values instead, and the key is "not detected".
+export const NEUTRAL_FEATURES: AudioFeatureValues = {
+  danceability: 0.5,
+  energy: 0.5,
+  valence: 0.5,
+  tempo: 120,
+  acousticness: 0.5,
+  instrumentalness: 0.5,
+  speechiness: 0.05,
+  liveness: 0.15,
+  loudness: -8,
+  key: -1,
+  mode: 1,
+  time_signature: 4,
+  duration_ms: 210000
+};
+
+// Neutral features for a track, keeping its real duration when the track object has one
+function neutralFeatures(track: FeatureLookupTrack): AudioFeatureValues {
+  return { ...NEUTRAL_FEATURES, duration_ms: track.duration_ms || NEUTRAL_FEATURES.duration_ms };
+}
+
+export const fallbackFeatureProvider: AudioFeatureProvider = {
+  source: 'fallback',
+  async getFeatures(_accessToken, tracks) {
+    return tracks.map(track => ({ id: track.id, ...neutralFeatures(track), source: 'fallback' }));
+  }
+};
+
+type DatasetRecord = Partial<AudioFeatureValues>;
+
+interface DatasetIndex {
+  byId: Map<string, DatasetRecord>;
+  byIsrc: Map<string, DatasetRecord>;
+}
+
+// Parse one CSV line, honouring double-quoted fields
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields.map(field => field.trim());
+}
+
+// Turn dataset rows into lookup maps. Rows are keyed by `id`/`track_id` and/or `isrc`.
+function buildDatasetIndex(rows: Record<string, any>[]): DatasetIndex {
+  const index: DatasetIndex = { byId: new Map(), byIsrc: new Map() };
+
+  rows.forEach(row => {
+    const record: DatasetRecord = {};
+    FEATURE_KEYS.forEach(key => {
+      const value = Number(row[key]);
+      if (row[key] !== undefined && row[key] !== '' && !isNaN(value)) {
+        record[key] = value;
+      }
+    });
+    if (Object.keys(record).length === 0) return;
+
+    const id = row.id || row.track_id;
+    if (id) index.byId.set(String(id), record);
+    if (row.isrc) index.byIsrc.set(String(row.isrc).toUpperCase(), record);
+  });
+
+  return index;
+}
+
+// Parse a dataset file. JSON may be an array of rows or an object keyed by
+// track ID; CSV needs a header row.
+export function parseFeatureDataset(text: string): DatasetIndex {
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const data = JSON.parse(trimmed);
+    const rows = Array.isArray(data)
+      ? data
+      : Object.entries(data).map(([id, row]) => ({ id, ...(row as object) }));
+    return buildDatasetIndex(rows);
+  }
+
+  const [headerLine, ...lines] = trimmed.split(/\r?\n/);
+  const headers = parseCsvLine(headerLine).map(header => header.toLowerCase());
+  const rows = lines
+    .filter(line => line.trim())
+    .map(line => {
+      const values = parseCsvLine(line);
+      return Object.fromEntries(headers.map((header, i) => [header, values[i]]));
+    });
+  return buildDatasetIndex(rows);
+}
+
+// Provider backed by a JSON or CSV file of precomputed features, keyed by
+// Spotify track ID or ISRC. The file is downloaded once and cached.
+export function createDatasetFeatureProvider(datasetUrl: string): AudioFeatureProvider {
+  let indexPromise: Promise<DatasetIndex | null> | null = null;
+
+  const loadIndex = () => {
+    if (!indexPromise) {
+      indexPromise = fetch(datasetUrl)
+        .then(response => {
+          if (!response.ok) throw new Error(`Dataset request failed: ${response.status}`);
+          return response.text();
+        })
+        .then(parseFeatureDataset)
+        .catch(error => {
+          console.error(`Error loading audio feature dataset from ${datasetUrl}:`, error);
+          return null;
+        });
+    }
+    return indexPromise;
+  };
+
+  return {
+    source: 'dataset',
+    async getFeatures(_accessToken, tracks) {
+      const index = await loadIndex();
+      if (!index) return tracks.map(() => null);
+
+      return tracks.map(track => {
+        const isrc = track.external_ids?.isrc?.toUpperCase();
+        const record = index.byId.get(track.id) || (isrc ? index.byIsrc.get(isrc) : undefined);
+        if (!record) return null;
+
+        return { id: track.id, ...neutralFeatures(track), ...record, source: 'dataset' };
+      });
+    }
+  };
+}
+
+// Ask each provider in turn for the tracks still missing features
+export async function resolveAudioFeatures(
+  accessToken: string,
+  tracks: FeatureLookupTrack[],
+  providers: AudioFeatureProvider[],
+  signal?: AbortSignal
+): Promise<AudioFeatures[]> {
+  const results: (AudioFeatures | null)[] = tracks.map(() => null);
+
+  for (const provider of providers) {
+    const missing = results
+      .map((result, index) => (result ? -1 : index))
+      .filter(index => index !== -1);
+    if (!missing.length) break;
+
+    const features = await provider.getFeatures(
+      accessToken,
+      missing.map(index => tracks[index]),
+      signal
+    );
+    missing.forEach((trackIndex, i) => {
+      if (features[i]) results[trackIndex] = features[i];
+    });
+  }
+
+  // The fallback provider is normally last, but never return holes
+  return results.map((result, index) =>
+    result || { id: tracks[index].id, ...neutralFeatures(tracks[index]), source: 'fallback' as const }
+  );
+}
+
+// Count how many feature sets came from each source
+export function countFeatureSources(features: AudioFeatures[]): Record<AudioFeatureSource, number> {
+  const counts: Record<AudioFeatureSource, number> = { spotify: 0, dataset: 0, fallback: 0 };
+  features.forEach(feature => {
+    counts[feature.source]++;
+  });
+  return counts;
+}
+
+// Range of each feature, used to map it onto 0-1. Tempo and loudness are the
+// ones that need it; the 0-1 features map to themselves.
+export const FEATURE_RANGES: Record<AudioFeatureKey, [number, number]> = {
+  danceability: [0, 1],
+  energy: [0, 1],
+  valence: [0, 1],
+  acousticness: [0, 1],
+  instrumentalness: [0, 1],
+  speechiness: [0, 1],
+  liveness: [0, 1],
+  mode: [0, 1],
+  tempo: [50, 200],
+  loudness: [-60, 0],
+  key: [0, 11],
+  time_signature: [3, 7],
+  duration_ms: [0, 600000]
+};
+
+export const FEATURE_LABELS: Record<AudioFeatureKey, string> = {
+  danceability: 'Danceability',
+  energy: 'Energy',
+  valence: 'Mood',
+  acousticness: 'Acousticness',
+  instrumentalness: 'Instrumental',
+  speechiness: 'Speechiness',
+  liveness: 'Liveness',
+  mode: 'Major key',
+  tempo: 'Tempo',
+  loudness: 'Loudness',
+  key: 'Key',
+  time_signature: 'Time signature',
+  duration_ms: 'Length'
+};
+
+// Map a feature value onto 0-1, clamping values outside its range
+export function normalizeFeature(key: AudioFeatureKey, value: number): number {
+  const [min, max] = FEATURE_RANGES[key];
+  return Math.max(0, Math.min(1, (value - min) / (max - min)));
+}
+
+export function normalizeTempo(bpm: number): number {
+  return normalizeFeature('tempo', bpm);
+}
+
+export function normalizeLoudness(db: number): number {
+  return normalizeFeature('loudness', db);
+}
+
+// Average of every feature across the given feature sets, or null when there are none
+export function averageFeatures(features: AudioFeatures[]): AudioFeatureValues | null {
+  const valid = features.filter(Boolean);
+  if (!valid.length) return null;
+
+  const totals = { ...NEUTRAL_FEATURES };
+  FEATURE_KEYS.forEach(key => {
+    totals[key] = valid.reduce((sum, feature) => sum + (Number(feature[key]) || 0), 0) / valid.length;
+  });
+  return totals;
+}
+
+const KEY_NAMES = ['C', 'C♯/D♭', 'D', 'D♯/E♭', 'E', 'F', 'F♯/G♭', 'G', 'G♯/A♭', 'A', 'A♯/B♭', 'B'];
+
+// e.g. "A minor"; null when no key was detected
+export function formatKey(key: number, mode: number): string | null {
+  if (!(key >= 0 && key < KEY_NAMES.length)) return null;
+  return `${KEY_NAMES[key]} ${mode === 1 ? 'major' : 'minor'}`;
+}
+
+// Most frequent value across feature sets, ignoring fallback estimates
+function mostCommon<T>(features: AudioFeatures[], valueOf: (feature: AudioFeatures) => T | null): T | null {
+  const counts = new Map<T, number>();
+  features.forEach(feature => {
+    if (!feature || feature.source === 'fallback') return;
+    const value = valueOf(feature);
+    if (value !== null) counts.set(value, (counts.get(value) || 0) + 1);
+  });
+  const [top] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  return top ? top[0] : null;
+}
+
+export function mostCommonKey(features: AudioFeatures[]): string | null {
+  return mostCommon(features, feature => formatKey(feature.key, feature.mode));
+}
+
+export function mostCommonTimeSignature(features: AudioFeatures[]): number | null {
+  return mostCommon(features, feature => (feature.time_signature > 0 ? feature.time_signature : null));
+}
+
+// e.g. "3:45"
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// Features shown on 0-100 charts, in display order
+export const CHART_FEATURES: AudioFeatureKey[] = [
+  'danceability', 'energy', 'valence', 'acousticness', 'instrumentalness',
+  'speechiness', 'liveness', 'mode', 'tempo', 'loudness'
+];
+
+// Chart rows for averaged features, each normalized to 0-100
+export function featureChartData(averages: AudioFeatureValues): { name: string; value: number }[] {
+  return CHART_FEATURES.map(key => ({
+    name: FEATURE_LABELS[key],
+    value: Math.round(normalizeFeature(key, averages[key]) * 100)
+  }));
+}
+
+// Features that place a track's sound in a vector; "mode" is a share of major keys, not a sound
+export const VECTOR_FEATURES: AudioFeatureKey[] = CHART_FEATURES.filter(key => key !== 'mode');
+
+// A track's VECTOR_FEATURES, each normalized to 0-1
+export function featureVector(features: AudioFeatures): number[] {
+  return VECTOR_FEATURES.map(key => normalizeFeature(key, Number(features[key])));
+}
+
+// Euclidean distance between feature vectors, scaled so the two furthest possible points are 1 apart
+export function featureDistance(a: number[], b: number[]): number {
+  return Math.sqrt(a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0) / a.length);
+}
+
+export interface FeatureHighlights {
+  tempo: number;
+  loudness: number;
+  durationMs: number;
+  key: string | null;
+  timeSignature: number | null;
+}
+
+// The features that don't fit a 0-100 chart, summarized for display
+export function featureHighlights(features: AudioFeatures[]): FeatureHighlights | null {
+  const averages = averageFeatures(features);
+  if (!averages) return null;
+  return {
+    tempo: averages.tempo,
+    loudness: averages.loudness,
+    durationMs: averages.duration_ms,
+    key: mostCommonKey(features),
+    timeSignature: mostCommonTimeSignature(features)
+  };
+}
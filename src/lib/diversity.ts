@@ -0,0 +1,146 @@
+// Taste diversity metrics.
+// Shannon entropy and the Gini coefficient describe how evenly listening is
+// spread over genres and artists; feature spread measures how different the
+// tracks sound from each other; artist concentration says how much of a list
+// its biggest artists take up.
+
+import { AudioFeatureKey, AudioFeatures, normalizeFeature } from './audio-features';
+
+export interface DistributionMetrics {
+  // Number of distinct genres or artists
+  unique: number;
+  // Shannon entropy in bits
+  entropy: number;
+  // Entropy divided by its maximum (log2 of `unique`): 0 = one item, 1 = perfectly even
+  evenness: number;
+  // 0 = perfectly even, approaching 1 = dominated by a single item
+  gini: number;
+}
+
+export interface ArtistConcentration {
+  // How many of the biggest artists are counted
+  topN: number;
+  artists: string[];
+  // Share of the tracks by those artists, 0-1
+  share: number;
+}
+
+export interface DiversityMetrics {
+  genres: DistributionMetrics;
+  artists: DistributionMetrics;
+  // Mean pairwise distance between tracks in audio-feature space, 0-1
+  featureSpread: number | null;
+  concentration: ArtistConcentration;
+  // Blend of genre evenness, artist evenness and feature spread, 0-100
+  score: number;
+}
+
+export interface DiversityInput {
+  // Tracks in order, with their artists; the first artist is the main one
+  tracks: { artists?: { id?: string | null; name: string }[] }[];
+  // Weighted genre counts (e.g. from getGenreDistribution), without the unknown-genre bucket
+  genres: { name: string; value: number }[];
+  // Audio features of the tracks; fallback estimates are ignored
+  features?: AudioFeatures[];
+}
+
+const CONCENTRATION_TOP_N = 3;
+// Features used for the spread, each normalized to 0-1
+const SPREAD_FEATURES: AudioFeatureKey[] = ['danceability', 'energy', 'valence', 'acousticness', 'instrumentalness', 'tempo'];
+
+export function shannonEntropy(counts: number[]): number {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (!total) return 0;
+  return counts.reduce((sum, count) => {
+    if (count <= 0) return sum;
+    const p = count / total;
+    return sum - p * Math.log2(p);
+  }, 0);
+}
+
+export function giniCoefficient(counts: number[]): number {
+  const values = counts.filter(count => count > 0).sort((a, b) => a - b);
+  const n = values.length;
+  const total = values.reduce((sum, value) => sum + value, 0);
+  if (n < 2 || !total) return 0;
+  // Mean absolute difference form over the sorted values
+  const weighted = values.reduce((sum, value, i) => sum + (2 * (i + 1) - n - 1) * value, 0);
+  return weighted / (n * total);
+}
+
+export function distributionMetrics(counts: number[]): DistributionMetrics {
+  const positive = counts.filter(count => count > 0);
+  const entropy = shannonEntropy(positive);
+  return {
+    unique: positive.length,
+    entropy,
+    evenness: positive.length > 1 ? entropy / Math.log2(positive.length) : 0,
+    gini: giniCoefficient(positive)
+  };
+}
+
+function countBy<T>(items: T[], keyOf: (item: T) => string | null): Map<string, number> {
+  const counts = new Map<string, number>();
+  items.forEach(item => {
+    const key = keyOf(item);
+    if (key) counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return counts;
+}
+
+// Mean pairwise Euclidean distance, divided by the largest possible distance
+export function featureSpread(features: AudioFeatures[]): number | null {
+  const vectors = features
+    .filter(feature => feature && feature.source !== 'fallback')
+    .map(feature => SPREAD_FEATURES.map(key => normalizeFeature(key, Number(feature[key]))));
+  if (vectors.length < 2) return null;
+
+  let total = 0;
+  let pairs = 0;
+  for (let i = 0; i < vectors.length; i++) {
+    for (let j = i + 1; j < vectors.length; j++) {
+      total += Math.sqrt(vectors[i].reduce((sum, value, k) => sum + (value - vectors[j][k]) ** 2, 0));
+      pairs++;
+    }
+  }
+  return total / pairs / Math.sqrt(SPREAD_FEATURES.length);
+}
+
+// Main artist of a track, by ID so two artists with the same name stay apart;
+// local files have no ID and fall back to the name
+function artistKey(track: DiversityInput['tracks'][number]): string | null {
+  return track.artists?.[0]?.id || track.artists?.[0]?.name || null;
+}
+
+// Share of the tracks whose main artist is one of the `topN` most frequent
+export function artistConcentration(tracks: DiversityInput['tracks'], topN = CONCENTRATION_TOP_N): ArtistConcentration {
+  const counts = countBy(tracks, artistKey);
+  const names = new Map(tracks.map(track => [artistKey(track), track.artists?.[0]?.name || '']));
+  const top = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).slice(0, topN);
+  const counted = tracks.filter(artistKey).length;
+  return {
+    topN,
+    artists: top.map(([key]) => names.get(key) || key),
+    share: counted ? top.reduce((sum, [, count]) => sum + count, 0) / counted : 0
+  };
+}
+
+export function calculateDiversity({ tracks, genres, features = [] }: DiversityInput): DiversityMetrics {
+  const genreMetrics = distributionMetrics(genres.map(genre => genre.value));
+  const artistMetrics = distributionMetrics(
+    Array.from(countBy(tracks, artistKey).values())
+  );
+  const spread = featureSpread(features);
+
+  // Feature spread rarely goes past 0.5 in practice, so it is doubled before blending
+  const parts = [genreMetrics.evenness, artistMetrics.evenness, ...(spread === null ? [] : [Math.min(spread * 2, 1)])];
+  const score = parts.reduce((sum, part) => sum + part, 0) / parts.length;
+
+  return {
+    genres: genreMetrics,
+    artists: artistMetrics,
+    featureSpread: spread,
+    concentration: artistConcentration(tracks),
+    score: Math.round(score * 100)
+  };
+}
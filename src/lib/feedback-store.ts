@@ -0,0 +1,67 @@
+// Server-side storage for recommendation feedback: one JSON file per user in
+// FEEDBACK_DATA_DIR (default .data/feedback). Only import this from route handlers.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TrackFeedback, TrackFeedbackInput } from './feedback';
+
+// Oldest entries are dropped past this many per user
+const MAX_ENTRIES = 500;
+
+function dataDir(): string {
+  return process.env.FEEDBACK_DATA_DIR || path.join(process.cwd(), '.data', 'feedback');
+}
+
+function userFile(userId: string): string {
+  return path.join(dataDir(), `${encodeURIComponent(userId)}.json`);
+}
+
+// Writes for a user run one at a time so concurrent ratings don't overwrite each other
+const writeChains = new Map<string, Promise<unknown>>();
+
+function serialize<T>(userId: string, task: () => Promise<T>): Promise<T> {
+  const previous = writeChains.get(userId) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  writeChains.set(userId, next);
+  return next;
+}
+
+export async function readFeedback(userId: string): Promise<TrackFeedback[]> {
+  try {
+    const data = JSON.parse(await fs.readFile(userFile(userId), 'utf8'));
+    return Array.isArray(data) ? data : [];
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+async function writeFeedback(userId: string, feedback: TrackFeedback[]) {
+  const file = userFile(userId);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Write to a temporary file first so a crash never leaves half a file behind
+  const temporary = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(feedback, null, 2));
+  await fs.rename(temporary, file);
+}
+
+// Newest first; re-rating a track replaces its entry
+export function addFeedback(userId: string, entry: TrackFeedbackInput): Promise<TrackFeedback[]> {
+  return serialize(userId, async () => {
+    const existing = await readFeedback(userId);
+    const feedback = [
+      { ...entry, createdAt: new Date().toISOString() },
+      ...existing.filter(item => item.trackId !== entry.trackId)
+    ].slice(0, MAX_ENTRIES);
+    await writeFeedback(userId, feedback);
+    return feedback;
+  });
+}
+
+export function removeFeedback(userId: string, trackId?: string): Promise<TrackFeedback[]> {
+  return serialize(userId, async () => {
+    const feedback = trackId ? (await readFeedback(userId)).filter(item => item.trackId !== trackId) : [];
+    await writeFeedback(userId, feedback);
+    return feedback;
+  });
+}
@@ -0,0 +1,150 @@
+// Like/dislike feedback on recommended tracks.
+// Entries are stored per user by /api/feedback. Recommendations are re-ranked
+// with them: disliked tracks are dropped, disliked artists and genres sink, and
+// feature targets are nudged toward the tracks the user liked.
+
+import { RecommendationTuning, TUNABLE_ATTRIBUTES, TunableAttribute } from './recommendation-tuning';
+
+export type FeedbackRating = 'like' | 'dislike';
+
+export interface TrackFeedback {
+  trackId: string;
+  rating: FeedbackRating;
+  name: string;
+  artists: { id: string | null; name: string }[];
+  // Genres of the track's artists when it was rated
+  genres: string[];
+  // Audio features when it was rated; empty when only fallback values were available
+  features: Partial<Record<TunableAttribute, number>>;
+  createdAt: string;
+}
+
+export type TrackFeedbackInput = Omit<TrackFeedback, 'createdAt'>;
+
+// Any Spotify track object works; these are the fields the ranking reads
+export interface FeedbackCandidate {
+  id: string | null;
+  artists: { id: string | null }[];
+}
+
+export type NudgedAttribute = Exclude<TunableAttribute, 'popularity' | 'duration_ms'>;
+
+// Features that liked tracks pull the targets toward, and that feedback entries record
+export const NUDGED_ATTRIBUTES: NudgedAttribute[] = ['energy', 'valence', 'danceability', 'acousticness', 'instrumentalness', 'tempo'];
+// Share of the way an existing target moves toward the liked average
+const TARGET_NUDGE = 0.25;
+// Rank penalties, in list positions
+const DISLIKED_ARTIST_PENALTY = 10;
+const DISLIKED_GENRE_PENALTY = 3;
+const LIKED_ARTIST_BONUS = 2;
+
+// Likes minus dislikes per key; negative means disliked on balance
+function netScores(feedback: TrackFeedback[], keysOf: (entry: TrackFeedback) => string[]): Map<string, number> {
+  const scores = new Map<string, number>();
+  feedback.forEach(entry => {
+    const delta = entry.rating === 'like' ? 1 : -1;
+    Array.from(new Set(keysOf(entry))).forEach(key => scores.set(key, (scores.get(key) || 0) + delta));
+  });
+  return scores;
+}
+
+export function feedbackArtistScores(feedback: TrackFeedback[]): Map<string, number> {
+  return netScores(feedback, entry => entry.artists.map(artist => artist.id).filter((id): id is string => !!id));
+}
+
+export function feedbackGenreScores(feedback: TrackFeedback[]): Map<string, number> {
+  return netScores(feedback, entry => entry.genres);
+}
+
+export function hasDislikedGenres(feedback: TrackFeedback[]): boolean {
+  return Array.from(feedbackGenreScores(feedback).values()).some(score => score < 0);
+}
+
+// Move feature targets toward the average of the liked tracks. Attributes without
+// a target get the liked average; existing targets move part of the way. Min/max
+// limits set by the user are kept.
+export function feedbackTuning(tuning: RecommendationTuning, feedback: TrackFeedback[]): RecommendationTuning {
+  const liked = feedback.filter(entry => entry.rating === 'like');
+  const next = { ...tuning };
+
+  NUDGED_ATTRIBUTES.forEach(attribute => {
+    const values = liked.map(entry => entry.features[attribute]).filter((value): value is number => typeof value === 'number');
+    if (!values.length) return;
+
+    const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const current = tuning[attribute] || {};
+    const info = TUNABLE_ATTRIBUTES.find(candidate => candidate.key === attribute)!;
+    const target = current.target === undefined ? average : current.target + (average - current.target) * TARGET_NUDGE;
+    const min = current.min ?? info.min;
+    const max = current.max ?? info.max;
+
+    next[attribute] = { ...current, target: Math.min(max, Math.max(min, target)) };
+  });
+
+  return next;
+}
+
+// Re-rank tracks with the feedback. Disliked tracks are removed; the rest keep
+// their order unless an artist or genre the user reacted to moves them.
+// `genresByArtist` is only needed when genres were disliked.
+export function rankWithFeedback<T extends FeedbackCandidate>(
+  tracks: T[],
+  feedback: TrackFeedback[],
+  genresByArtist: Map<string, string[]> = new Map()
+): T[] {
+  if (!feedback.length) return tracks;
+
+  const disliked = new Set(feedback.filter(entry => entry.rating === 'dislike').map(entry => entry.trackId));
+  const artistScores = feedbackArtistScores(feedback);
+  const genreScores = feedbackGenreScores(feedback);
+
+  return tracks
+    .filter(track => !track.id || !disliked.has(track.id))
+    .map((track, index) => {
+      const artistIds = track.artists.map(artist => artist.id).filter((id): id is string => !!id);
+      const genres = Array.from(new Set(artistIds.flatMap(id => genresByArtist.get(id) || [])));
+      let rank = index;
+
+      artistIds.forEach(id => {
+        const score = artistScores.get(id) || 0;
+        if (score < 0) rank += DISLIKED_ARTIST_PENALTY * -score;
+        if (score > 0) rank -= LIKED_ARTIST_BONUS;
+      });
+      genres.forEach(genre => {
+        const score = genreScores.get(genre) || 0;
+        if (score < 0) rank += (DISLIKED_GENRE_PENALTY * -score) / genres.length;
+      });
+
+      return { track, rank, index };
+    })
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map(({ track }) => track);
+}
+
+// Client helpers for /api/feedback
+
+async function feedbackRequest(init: RequestInit = {}, query = ''): Promise<TrackFeedback[]> {
+  const response = await fetch(`/api/feedback${query}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers }
+  });
+  if (!response.ok) {
+    throw new Error(`Feedback request failed with status ${response.status}`);
+  }
+  const data = await response.json();
+  return data.feedback || [];
+}
+
+export function fetchFeedback(signal?: AbortSignal): Promise<TrackFeedback[]> {
+  return feedbackRequest({ signal });
+}
+
+// Rate a track; rating it again replaces the earlier rating
+export function saveFeedback(entry: TrackFeedbackInput): Promise<TrackFeedback[]> {
+  return feedbackRequest({ method: 'POST', body: JSON.stringify(entry) });
+}
+
+// Remove one track's rating, or the whole history when no track is given
+export function clearFeedback(trackId?: string): Promise<TrackFeedback[]> {
+  return feedbackRequest({ method: 'DELETE' }, trackId ? `?trackId=${encodeURIComponent(trackId)}` : '');
+}
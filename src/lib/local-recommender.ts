@@ -0,0 +1,298 @@
+// Local content-based recommender.
+// Spotify's /recommendations endpoint is blocked for many newer apps, so this
+// builds a candidate pool from the user's own library (top artists' catalogs,
+// saved tracks and playlists) and ranks it by audio-feature distance to the seeds.
+
+import { AudioFeatureKey, AudioFeatures, FeatureLookupTrack, normalizeFeature } from './audio-features';
+import { RecommendationTuning, TunableAttribute, tuningTargetDistance, withinTuning } from './recommendation-tuning';
+// spotify.ts loads this module first and isAbortError is only called per request, so the cycle is safe
+import { isAbortError } from './spotify';
+
+// Any Spotify track object works; these are the fields the recommender reads
+export interface CandidateTrack extends FeatureLookupTrack {
+  name: string;
+  popularity?: number;
+  is_local?: boolean;
+  artists: { id: string | null; name: string }[];
+  [key: string]: any;
+}
+
+export type LocalRecommendation = CandidateTrack & { source: 'local' };
+
+export interface LocalRecommendationRequest {
+  seedTracks: string[];
+  seedArtists: string[];
+  seedGenres: string[];
+  tuning: RecommendationTuning;
+  limit: number;
+}
+
+// Library access the recommender needs, supplied by src/lib/spotify.ts
+export interface LocalRecommenderApi {
+  getTopArtists(accessToken: string, limit: number, signal?: AbortSignal): Promise<{ id: string; genres: string[] }[]>;
+  getArtistTopTracks(accessToken: string, artistId: string, signal?: AbortSignal): Promise<CandidateTrack[]>;
+  getSavedTracks(accessToken: string, maxItems: number, signal?: AbortSignal): Promise<CandidateTrack[]>;
+  getPlaylistTracks(accessToken: string, maxPlaylists: number, maxItems: number, signal?: AbortSignal): Promise<CandidateTrack[]>;
+  getTracks(accessToken: string, trackIds: string[], signal?: AbortSignal): Promise<CandidateTrack[]>;
+  getArtists(accessToken: string, artistIds: string[], signal?: AbortSignal): Promise<{ id: string; genres: string[] }[]>;
+  getTrackFeatures(accessToken: string, tracks: FeatureLookupTrack[], signal?: AbortSignal): Promise<AudioFeatures[]>;
+}
+
+// How much of the library goes into the candidate pool
+const POOL_TOP_ARTISTS = 15;
+const POOL_SAVED_TRACKS = 200;
+const POOL_PLAYLISTS = 5;
+const POOL_TRACKS_PER_PLAYLIST = 100;
+// Pools are reused for a few minutes so slider changes don't refetch the library
+const POOL_CACHE_MS = 5 * 60 * 1000;
+// Keep a single artist from taking over the results
+const MAX_TRACKS_PER_ARTIST = 2;
+
+const FEATURE_WEIGHTS: [AudioFeatureKey, number][] = [
+  ['danceability', 1],
+  ['energy', 1],
+  ['valence', 1],
+  ['acousticness', 1],
+  ['instrumentalness', 0.5],
+  ['tempo', 0.5]
+];
+
+// Weighted feature vector; tempo is normalized to 0-1
+function featureVector(features: AudioFeatures): number[] {
+  return FEATURE_WEIGHTS.map(([key, weight]) => {
+    const value = Number(features[key]);
+    return normalizeFeature(key, value) * weight;
+  });
+}
+
+export function featureCentroid(features: AudioFeatures[]): number[] | null {
+  if (!features.length) return null;
+  const vectors = features.map(featureVector);
+  return vectors[0].map((_, i) => vectors.reduce((sum, vector) => sum + vector[i], 0) / vectors.length);
+}
+
+function distance(a: number[], b: number[]): number {
+  return Math.sqrt(a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0));
+}
+
+// Spotify genre seeds are hyphenated ("hip-hop", "r-n-b"), artist genres are
+// free text ("conscious hip hop", "r&b"), so compare a normalised form
+export function genreMatchesSeed(artistGenre: string, seedGenre: string): boolean {
+  const normalized = artistGenre.toLowerCase().replace(/&/g, '-n-').replace(/\s+/g, '-');
+  return normalized === seedGenre || normalized.includes(seedGenre);
+}
+
+// Candidates within `tolerance` of the target popularity, widening the window
+// until there are enough to choose from
+export function filterByPopularity<T extends { popularity?: number }>(
+  candidates: T[],
+  targetPopularity: number,
+  minimum: number
+): T[] {
+  let filtered = candidates;
+  for (let tolerance = 10; tolerance <= 100; tolerance += 10) {
+    filtered = candidates.filter(track => Math.abs((track.popularity ?? 50) - targetPopularity) <= tolerance);
+    if (filtered.length >= minimum) break;
+  }
+  return filtered;
+}
+
+// Attribute values of a pool track, for tuning filters and targets
+function tunableValues(track: CandidateTrack, features?: AudioFeatures): Partial<Record<TunableAttribute, number>> {
+  return {
+    popularity: track.popularity,
+    duration_ms: track.duration_ms,
+    ...(features && features.source !== 'fallback'
+      ? {
+          energy: features.energy,
+          valence: features.valence,
+          danceability: features.danceability,
+          tempo: features.tempo,
+          acousticness: features.acousticness,
+          instrumentalness: features.instrumentalness
+        }
+      : {})
+  };
+}
+
+// Sort by score (lower is better), capping how many tracks one artist gets.
+// Capped tracks only come back if there aren't enough others.
+function pickDiverse<T extends CandidateTrack>(scored: { track: T; score: number }[], limit: number): T[] {
+  const sorted = [...scored].sort((a, b) => a.score - b.score);
+  const picked: T[] = [];
+  const overflow: T[] = [];
+  const perArtist = new Map<string, number>();
+
+  for (const { track } of sorted) {
+    const artistId = track.artists[0]?.id || track.artists[0]?.name || '';
+    const count = perArtist.get(artistId) || 0;
+    if (count < MAX_TRACKS_PER_ARTIST) {
+      perArtist.set(artistId, count + 1);
+      picked.push(track);
+    } else {
+      overflow.push(track);
+    }
+    if (picked.length >= limit) break;
+  }
+
+  return [...picked, ...overflow].slice(0, limit);
+}
+
+interface CandidatePool {
+  tracks: CandidateTrack[];
+  features: Map<string, AudioFeatures>;
+  genresByArtist: Map<string, string[]>;
+  expires: number;
+}
+
+export function createLocalRecommender(api: LocalRecommenderApi) {
+  // Only finished pools are cached, so a cancelled build never poisons the cache
+  const poolCache = new Map<string, CandidatePool>();
+
+  // Fetch one pool source; a failing source just contributes nothing
+  const fromSource = async <T>(label: string, load: () => Promise<T[]>): Promise<T[]> => {
+    try {
+      return await load();
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error(`Local recommender could not load ${label}:`, error);
+      return [];
+    }
+  };
+
+  async function getCandidatePool(accessToken: string, signal?: AbortSignal): Promise<CandidatePool> {
+    // Drop expired pools, so tokens that are never used again don't keep theirs
+    const now = Date.now();
+    poolCache.forEach((pool, token) => {
+      if (pool.expires <= now) poolCache.delete(token);
+    });
+    const cached = poolCache.get(accessToken);
+    if (cached) return cached;
+
+    console.log('Building local recommendation pool...');
+    const topArtists = await fromSource('top artists', () => api.getTopArtists(accessToken, POOL_TOP_ARTISTS, signal));
+    const [artistTracks, savedTracks, playlistTracks] = await Promise.all([
+      fromSource('top artist tracks', async () => {
+        const perArtist = await Promise.all(
+          topArtists.map(artist => fromSource(`tracks for ${artist.id}`, () => api.getArtistTopTracks(accessToken, artist.id, signal)))
+        );
+        return perArtist.flat();
+      }),
+      fromSource('saved tracks', () => api.getSavedTracks(accessToken, POOL_SAVED_TRACKS, signal)),
+      fromSource('playlist tracks', () => api.getPlaylistTracks(accessToken, POOL_PLAYLISTS, POOL_TRACKS_PER_PLAYLIST, signal))
+    ]);
+
+    const byId = new Map<string, CandidateTrack>();
+    [...artistTracks, ...savedTracks, ...playlistTracks].forEach(track => {
+      // Local files and unavailable tracks have no ID
+      if (track && track.id && !track.is_local && !byId.has(track.id)) {
+        byId.set(track.id, track);
+      }
+    });
+    const tracks = Array.from(byId.values());
+
+    const features = await api.getTrackFeatures(accessToken, tracks, signal);
+    const pool: CandidatePool = {
+      tracks,
+      features: new Map(features.map(feature => [feature.id, feature])),
+      genresByArtist: new Map(topArtists.map(artist => [artist.id, artist.genres || []])),
+      expires: Date.now() + POOL_CACHE_MS
+    };
+    console.log(`Local recommendation pool has ${tracks.length} tracks`);
+
+    poolCache.set(accessToken, pool);
+    return pool;
+  }
+
+  // Genres for every artist in the pool, fetched only when genre seeds are used
+  async function ensureArtistGenres(accessToken: string, pool: CandidatePool, signal?: AbortSignal) {
+    const missing = Array.from(new Set(
+      pool.tracks.flatMap(track => track.artists.map(artist => artist.id)).filter((id): id is string => !!id)
+    )).filter(id => !pool.genresByArtist.has(id));
+    if (!missing.length) return;
+
+    const artists = await fromSource('artist genres', () => api.getArtists(accessToken, missing, signal));
+    artists.forEach(artist => pool.genresByArtist.set(artist.id, artist.genres || []));
+  }
+
+  async function recommend(
+    accessToken: string,
+    request: LocalRecommendationRequest,
+    signal?: AbortSignal
+  ): Promise<LocalRecommendation[]> {
+    const { seedTracks, seedArtists, seedGenres, tuning, limit } = request;
+    const targetPopularity = tuning.popularity?.target;
+    const pool = await getCandidatePool(accessToken, signal);
+
+    // Seed tracks that aren't in the pool are looked up so their features still count
+    const poolById = new Map(pool.tracks.map(track => [track.id, track]));
+    const unknownSeeds = seedTracks.filter(id => !poolById.has(id));
+    const fetchedSeeds = unknownSeeds.length
+      ? await fromSource('seed tracks', () => api.getTracks(accessToken, unknownSeeds, signal))
+      : [];
+    const seeds = [
+      ...seedTracks.map(id => poolById.get(id)).filter((track): track is CandidateTrack => !!track),
+      ...fetchedSeeds.filter(track => track && track.id)
+    ];
+    const seedFeatures = [
+      ...seeds.map(track => pool.features.get(track.id)).filter((feature): feature is AudioFeatures => !!feature),
+      ...(fetchedSeeds.length ? await api.getTrackFeatures(accessToken, fetchedSeeds.filter(track => track && track.id), signal) : [])
+    ];
+    const seedArtistIds = new Set([...seedArtists, ...seeds.flatMap(track => track.artists.map(artist => artist.id))]);
+
+    // Tracks outside a tuned min/max range are dropped. Neutral fallback
+    // features are unknown values, so they never exclude a track.
+    const seedIds = new Set(seedTracks);
+    let candidates = pool.tracks.filter(track => {
+      if (seedIds.has(track.id)) return false;
+      const values = tunableValues(track, pool.features.get(track.id));
+      return (Object.keys(values) as TunableAttribute[]).every(attribute =>
+        withinTuning(attribute, values[attribute], tuning)
+      );
+    });
+
+    // With genre seeds, tracks by matching artists rank first
+    let genreMatches = new Set<string>();
+    if (seedGenres.length) {
+      await ensureArtistGenres(accessToken, pool, signal);
+      genreMatches = new Set(
+        candidates
+          .filter(track => track.artists.some(artist =>
+            (pool.genresByArtist.get(artist.id || '') || []).some(genre =>
+              seedGenres.some(seed => genreMatchesSeed(genre, seed))
+            )
+          ))
+          .map(track => track.id)
+      );
+    }
+
+    // Without seed tracks, the seed artists' or matching genres' tracks are the "seed" sound
+    const centroid = featureCentroid(
+      seedFeatures.length
+        ? seedFeatures
+        : candidates
+            .filter(track => genreMatches.has(track.id) || track.artists.some(artist => seedArtistIds.has(artist.id)))
+            .map(track => pool.features.get(track.id))
+            .filter((feature): feature is AudioFeatures => !!feature)
+    );
+
+    if (targetPopularity !== undefined) {
+      candidates = filterByPopularity(candidates, targetPopularity, limit);
+    }
+
+    const scored = candidates.map(track => {
+      const features = pool.features.get(track.id);
+      let score = tuningTargetDistance(tunableValues(track, features), tuning) / 2;
+      if (centroid && features) score += distance(centroid, featureVector(features));
+      if (track.artists.some(artist => seedArtistIds.has(artist.id))) score -= 0.15;
+      if (genreMatches.has(track.id)) score -= 1;
+      return { track, score };
+    });
+
+    const results = pickDiverse(scored, limit);
+    console.log(`Local recommender picked ${results.length} of ${candidates.length} candidates`);
+    return results.map(track => ({ ...track, source: 'local' as const }));
+  }
+
+  return { recommend };
+}
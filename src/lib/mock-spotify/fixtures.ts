@@ -0,0 +1,706 @@
+// Seeded fixture catalog and users for the offline mock Spotify server.
+// Everything here is derived deterministically from names, so IDs and
+// audio features are stable across restarts and machines.
+
+export type MockTimeRange = 'short_term' | 'medium_term' | 'long_term';
+
+// FNV-1a hash used to seed the PRNG from a string
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32: small, fast and good enough for fixtures
+export function createRandom(seed: string): () => number {
+  let state = hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const BASE62 = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// 22-character base62 ID, the same shape as a real Spotify ID
+export function fixtureId(seed: string): string {
+  const random = createRandom(seed);
+  let id = '';
+  for (let i = 0; i < 22; i++) {
+    id += BASE62[Math.floor(random() * BASE62.length)];
+  }
+  return id;
+}
+
+// Rough centre of an artist's sound; each track varies around it
+interface FeatureProfile {
+  danceability: number;
+  energy: number;
+  valence: number;
+  acousticness: number;
+  instrumentalness: number;
+  speechiness: number;
+  tempo: number;
+  loudness: number;
+}
+
+interface AlbumDefinition {
+  name: string;
+  releaseDate: string;
+  precision: 'year' | 'month' | 'day';
+  tracks: string[];
+  // Licensed only in these markets; playable everywhere when left out
+  markets?: string[];
+  // Re-released for these markets under different track IDs; Spotify relinks
+  // playlist items to the regional copy there
+  regionalCopyMarkets?: string[];
+}
+
+interface ArtistDefinition {
+  key: string;
+  name: string;
+  genres: string[];
+  popularity: number;
+  followers: number;
+  profile: FeatureProfile;
+  albums: AlbumDefinition[];
+}
+
+const ARTISTS: ArtistDefinition[] = [
+  {
+    key: 'glass-harbour',
+    name: 'Glass Harbour',
+    genres: ['indie rock', 'modern rock'],
+    popularity: 71,
+    followers: 842000,
+    profile: { danceability: 0.52, energy: 0.74, valence: 0.48, acousticness: 0.12, instrumentalness: 0.05, speechiness: 0.04, tempo: 128, loudness: -6 },
+    albums: [
+      { name: 'Low Tide Radio', releaseDate: '2019-03-08', precision: 'day', tracks: ['Static Coast', 'Paper Lighthouse', 'Undertow', 'Salt in the Speakers'] },
+      { name: 'Breakwater', releaseDate: '2023-09', precision: 'month', tracks: ['Breakwater', 'Harbour Lights'] }
+    ]
+  },
+  {
+    key: 'neon-orchard',
+    name: 'Neon Orchard',
+    genres: ['synthpop', 'indie pop', 'electropop'],
+    popularity: 66,
+    followers: 512000,
+    profile: { danceability: 0.72, energy: 0.68, valence: 0.71, acousticness: 0.08, instrumentalness: 0.02, speechiness: 0.05, tempo: 118, loudness: -5.5 },
+    albums: [
+      { name: 'Fruit of the Grid', releaseDate: '2021-06-18', precision: 'day', tracks: ['Citrus Signal', 'Arcade Bloom', 'Pixel Pear', 'Overripe'] }
+    ]
+  },
+  {
+    key: 'marrow-lane',
+    name: 'Marrow Lane',
+    genres: ['indie folk', 'chamber folk'],
+    popularity: 38,
+    followers: 46000,
+    profile: { danceability: 0.41, energy: 0.31, valence: 0.36, acousticness: 0.86, instrumentalness: 0.08, speechiness: 0.03, tempo: 96, loudness: -11 },
+    albums: [
+      { name: 'Hedgerow Hymns', releaseDate: '2014', precision: 'year', tracks: ['Blackthorn', 'Kettle Song', 'The Long Field', 'Winter Orchard'] }
+    ]
+  },
+  {
+    key: 'vela-circuit',
+    name: 'Vela Circuit',
+    genres: ['deep house', 'electronica'],
+    popularity: 54,
+    followers: 189000,
+    profile: { danceability: 0.81, energy: 0.7, valence: 0.55, acousticness: 0.04, instrumentalness: 0.78, speechiness: 0.05, tempo: 122, loudness: -7 },
+    albums: [
+      { name: 'Southern Sky Systems', releaseDate: '2020-11-13', precision: 'day', tracks: ['Vela Pulse', 'Night Relay', 'Carrier Wave', 'Southern Cross'] }
+    ]
+  },
+  {
+    key: 'the-quiet-atlas',
+    name: 'The Quiet Atlas',
+    genres: ['ambient', 'drone'],
+    popularity: 23,
+    followers: 9800,
+    profile: { danceability: 0.18, energy: 0.14, valence: 0.2, acousticness: 0.72, instrumentalness: 0.94, speechiness: 0.04, tempo: 72, loudness: -22 },
+    albums: [
+      { name: 'Contour Lines', releaseDate: '2011-02', precision: 'month', tracks: ['Isobar', 'Meridian', 'Scale 1:50000'] }
+    ]
+  },
+  {
+    key: 'koko-brava',
+    name: 'Koko Brava',
+    genres: ['afrobeats', 'afropop'],
+    popularity: 78,
+    followers: 2100000,
+    profile: { danceability: 0.86, energy: 0.72, valence: 0.82, acousticness: 0.18, instrumentalness: 0.01, speechiness: 0.11, tempo: 106, loudness: -5 },
+    albums: [
+      { name: 'Sunday Jollof', releaseDate: '2022-04-01', precision: 'day', tracks: ['Owambe', 'Sweet Wahala', 'Lagos Rain', 'Gbedu Girl'] },
+      { name: 'Lekki Nights', releaseDate: '2024-08-23', precision: 'day', tracks: ['Lekki Nights', 'No Wahala'] }
+    ]
+  },
+  {
+    key: 'dre-kingsley',
+    name: 'Dre Kingsley',
+    genres: ['hip hop', 'conscious hip hop'],
+    popularity: 74,
+    followers: 1400000,
+    profile: { danceability: 0.74, energy: 0.63, valence: 0.44, acousticness: 0.14, instrumentalness: 0.0, speechiness: 0.32, tempo: 92, loudness: -6.5 },
+    albums: [
+      { name: 'Corner Store Theology', releaseDate: '2018-10-05', precision: 'day', tracks: ['Deli Counter', 'Eastside Sermon', 'Bus Fare', 'Mama Said'] }
+    ]
+  },
+  {
+    key: 'lil-payphone',
+    name: 'Lil Payphone',
+    genres: ['trap', 'hip hop'],
+    popularity: 82,
+    followers: 3900000,
+    profile: { danceability: 0.8, energy: 0.66, valence: 0.38, acousticness: 0.07, instrumentalness: 0.0, speechiness: 0.26, tempo: 140, loudness: -5 },
+    albums: [
+      { name: 'Collect Call', releaseDate: '2023-02-17', precision: 'day', tracks: ['Quarter Drop', 'Dial Tone', 'Ring Back', 'Out of Service'] }
+    ]
+  },
+  {
+    key: 'amara-sol',
+    name: 'Amara Sol',
+    genres: ['r&b', 'neo soul'],
+    popularity: 63,
+    followers: 620000,
+    profile: { danceability: 0.66, energy: 0.48, valence: 0.52, acousticness: 0.38, instrumentalness: 0.02, speechiness: 0.07, tempo: 88, loudness: -7.5 },
+    albums: [
+      { name: 'Golden Hour Letters', releaseDate: '2020-07-24', precision: 'day', tracks: ['Honey Ink', 'Postmark', 'Slow Burn', 'Return to Sender'] }
+    ]
+  },
+  {
+    key: 'papel-picado',
+    name: 'Papel Picado',
+    genres: ['latin alternative', 'cumbia'],
+    popularity: 49,
+    followers: 154000,
+    profile: { danceability: 0.78, energy: 0.69, valence: 0.86, acousticness: 0.3, instrumentalness: 0.1, speechiness: 0.06, tempo: 100, loudness: -6 },
+    albums: [
+      { name: 'Fiesta de Cables', releaseDate: '2017-05', precision: 'month', tracks: ['Cumbia Eléctrica', 'Guirnalda', 'Mercado Nocturno'] }
+    ]
+  },
+  {
+    key: 'iron-meadow',
+    name: 'Iron Meadow',
+    genres: ['metal', 'doom metal'],
+    popularity: 41,
+    followers: 97000,
+    profile: { danceability: 0.3, energy: 0.93, valence: 0.18, acousticness: 0.01, instrumentalness: 0.32, speechiness: 0.07, tempo: 148, loudness: -4 },
+    albums: [
+      { name: 'Scythe & Static', releaseDate: '2016-10-31', precision: 'day', tracks: ['Scythe', 'Rust Field', 'Hollow Furrow'] }
+    ]
+  },
+  {
+    key: 'dot-matrix-kids',
+    name: 'Dot Matrix Kids',
+    genres: ['post-punk', 'new wave'],
+    popularity: 35,
+    followers: 31000,
+    profile: { danceability: 0.6, energy: 0.82, valence: 0.42, acousticness: 0.03, instrumentalness: 0.12, speechiness: 0.05, tempo: 150, loudness: -6 },
+    albums: [
+      { name: 'Continuous Feed', releaseDate: '1984', precision: 'year', tracks: ['Tractor Feed', 'Carriage Return', 'Form Feed'] },
+      { name: 'Continuous Feed (2019 Remaster)', releaseDate: '2019-01-11', precision: 'day', tracks: ['Line Printer Love'] }
+    ]
+  },
+  {
+    key: 'rosa-blue-trio',
+    name: 'Rosa Blue Trio',
+    genres: ['jazz', 'contemporary jazz'],
+    popularity: 29,
+    followers: 22000,
+    profile: { danceability: 0.48, energy: 0.35, valence: 0.5, acousticness: 0.8, instrumentalness: 0.85, speechiness: 0.04, tempo: 112, loudness: -13 },
+    albums: [
+      { name: 'Late Set at the Fox', releaseDate: '1997-03-14', precision: 'day', tracks: ['Fox & Hound', 'Brushes', 'Last Call Blues', 'Walking Home'], markets: ['US', 'CA'] }
+    ]
+  },
+  {
+    key: 'cassette-honey',
+    name: 'Cassette Honey',
+    genres: ['bedroom pop', 'lo-fi'],
+    popularity: 45,
+    followers: 88000,
+    profile: { danceability: 0.62, energy: 0.4, valence: 0.58, acousticness: 0.55, instrumentalness: 0.3, speechiness: 0.04, tempo: 84, loudness: -10 },
+    albums: [
+      { name: 'Tape Hiss Summer', releaseDate: '2022-07', precision: 'month', tracks: ['Rewind', 'Auto Reverse', 'Dolby Off', 'Chrome Type II'], regionalCopyMarkets: ['GB', 'IE'] }
+    ]
+  },
+  {
+    key: 'mirela-voss',
+    name: 'Mirela Voss',
+    genres: ['classical', 'modern classical'],
+    popularity: 33,
+    followers: 41000,
+    profile: { danceability: 0.22, energy: 0.2, valence: 0.28, acousticness: 0.95, instrumentalness: 0.92, speechiness: 0.04, tempo: 80, loudness: -20 },
+    albums: [
+      { name: 'Études for Empty Rooms', releaseDate: '2008', precision: 'year', tracks: ['Étude I: Dust', 'Étude II: Window', 'Étude III: Stairwell'] }
+    ]
+  },
+  {
+    key: 'big-sky-union',
+    name: 'Big Sky Union',
+    genres: ['country', 'americana'],
+    popularity: 68,
+    followers: 930000,
+    profile: { danceability: 0.58, energy: 0.62, valence: 0.66, acousticness: 0.42, instrumentalness: 0.01, speechiness: 0.04, tempo: 116, loudness: -6.5 },
+    albums: [
+      { name: 'Gravel Road Gospel', releaseDate: '2015-04-10', precision: 'day', tracks: ['Gravel Road', 'Tailgate Prayer', 'County Line', 'Dust Devil'] }
+    ]
+  },
+  {
+    key: 'seoulite',
+    name: 'SEOULITE',
+    genres: ['k-pop', 'dance pop'],
+    popularity: 80,
+    followers: 5200000,
+    profile: { danceability: 0.79, energy: 0.84, valence: 0.74, acousticness: 0.06, instrumentalness: 0.0, speechiness: 0.08, tempo: 124, loudness: -4 },
+    albums: [
+      { name: 'Neon Season', releaseDate: '2024-01-19', precision: 'day', tracks: ['Neon Season', 'Satellite Heart', 'Hi-Five Universe', 'Moonwalk Club'] }
+    ]
+  },
+  {
+    key: 'the-fennel-brothers',
+    name: 'The Fennel Brothers',
+    genres: ['bluegrass', 'folk'],
+    popularity: 27,
+    followers: 15000,
+    profile: { danceability: 0.55, energy: 0.58, valence: 0.72, acousticness: 0.9, instrumentalness: 0.4, speechiness: 0.04, tempo: 132, loudness: -9 },
+    albums: [
+      { name: 'Mountain Standard Time', releaseDate: '2009-08', precision: 'month', tracks: ['Banjo Weather', 'Switchback', 'Fiddlehead Reel'] }
+    ]
+  },
+  {
+    key: 'pulsewidth',
+    name: 'Pulsewidth',
+    genres: ['techno', 'minimal techno'],
+    popularity: 44,
+    followers: 67000,
+    profile: { danceability: 0.76, energy: 0.86, valence: 0.3, acousticness: 0.01, instrumentalness: 0.91, speechiness: 0.06, tempo: 130, loudness: -7 },
+    albums: [
+      { name: 'Duty Cycle', releaseDate: '2021-03-05', precision: 'day', tracks: ['Duty Cycle', 'Square Wave', 'Sidechain', 'Falling Edge'] }
+    ]
+  },
+  {
+    key: 'saffron-skies',
+    name: 'Saffron Skies',
+    genres: ['pop', 'dance pop'],
+    popularity: 88,
+    followers: 12400000,
+    profile: { danceability: 0.73, energy: 0.76, valence: 0.69, acousticness: 0.09, instrumentalness: 0.0, speechiness: 0.06, tempo: 120, loudness: -4.5 },
+    albums: [
+      { name: 'Marigold', releaseDate: '2023-05-12', precision: 'day', tracks: ['Marigold', 'Kiss the Static', 'Runway Lights', 'Afterglow'] }
+    ]
+  },
+  {
+    // No genres on purpose: Spotify returns plenty of these
+    key: 'untitled-field-recordings',
+    name: 'Untitled Field Recordings',
+    genres: [],
+    popularity: 4,
+    followers: 310,
+    profile: { danceability: 0.2, energy: 0.25, valence: 0.4, acousticness: 0.7, instrumentalness: 0.88, speechiness: 0.08, tempo: 90, loudness: -24 },
+    albums: [
+      { name: 'Tape 7', releaseDate: '2002', precision: 'year', tracks: ['Birds at the Depot', 'Ferry Horn'] }
+    ]
+  }
+];
+
+export interface MockArtist {
+  id: string;
+  key: string;
+  name: string;
+  genres: string[];
+  popularity: number;
+  followers: { href: null; total: number };
+  images: { url: string; height: number; width: number }[];
+  external_urls: { spotify: string };
+  uri: string;
+  type: 'artist';
+}
+
+export interface MockTrack {
+  id: string;
+  name: string;
+  uri: string;
+  type: 'track';
+  artists: { id: string; name: string; uri: string; external_urls: { spotify: string } }[];
+  album: {
+    id: string;
+    name: string;
+    album_type: 'album';
+    release_date: string;
+    release_date_precision: 'year' | 'month' | 'day';
+    images: { url: string; height: number; width: number }[];
+    uri: string;
+    external_urls: { spotify: string };
+  };
+  duration_ms: number;
+  explicit: boolean;
+  is_local: false;
+  popularity: number;
+  preview_url: string | null;
+  track_number: number;
+  available_markets?: string[];
+  external_ids: { isrc: string };
+  external_urls: { spotify: string };
+}
+
+export interface MockAudioFeatures {
+  id: string;
+  uri: string;
+  type: 'audio_features';
+  danceability: number;
+  energy: number;
+  key: number;
+  loudness: number;
+  mode: number;
+  speechiness: number;
+  acousticness: number;
+  instrumentalness: number;
+  liveness: number;
+  valence: number;
+  tempo: number;
+  duration_ms: number;
+  time_signature: number;
+}
+
+const IMAGE = [{ url: '/placeholder.svg', height: 640, width: 640 }];
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const round = (value: number, digits = 3) => Number(value.toFixed(digits));
+
+// A track's copy for some markets, which playlist items are relinked to there
+export interface MockRegionalCopy {
+  markets: string[];
+  track: MockTrack;
+}
+
+function buildCatalog() {
+  const artists = new Map<string, MockArtist>();
+  const tracks = new Map<string, MockTrack>();
+  const features = new Map<string, MockAudioFeatures>();
+  const tracksByArtist = new Map<string, MockTrack[]>();
+  // Keyed by the original track ID; the copies stay out of `tracks` so they
+  // never show up as separate tracks in recommendations
+  const regionalCopies = new Map<string, MockRegionalCopy>();
+
+  ARTISTS.forEach(definition => {
+    const artistId = fixtureId(`artist:${definition.key}`);
+    const artist: MockArtist = {
+      id: artistId,
+      key: definition.key,
+      name: definition.name,
+      genres: definition.genres,
+      popularity: definition.popularity,
+      followers: { href: null, total: definition.followers },
+      images: IMAGE,
+      external_urls: { spotify: `https://open.spotify.com/artist/${artistId}` },
+      uri: `spotify:artist:${artistId}`,
+      type: 'artist'
+    };
+    artists.set(artistId, artist);
+
+    const artistRef = {
+      id: artistId,
+      name: definition.name,
+      uri: artist.uri,
+      external_urls: artist.external_urls
+    };
+    const artistTracks: MockTrack[] = [];
+
+    definition.albums.forEach(albumDefinition => {
+      const albumId = fixtureId(`album:${definition.key}:${albumDefinition.name}`);
+      const album = {
+        id: albumId,
+        name: albumDefinition.name,
+        album_type: 'album' as const,
+        release_date: albumDefinition.releaseDate,
+        release_date_precision: albumDefinition.precision,
+        images: IMAGE,
+        uri: `spotify:album:${albumId}`,
+        external_urls: { spotify: `https://open.spotify.com/album/${albumId}` }
+      };
+
+      albumDefinition.tracks.forEach((name, index) => {
+        const seed = `track:${definition.key}:${albumDefinition.name}:${name}`;
+        const random = createRandom(seed);
+        const trackId = fixtureId(seed);
+        const vary = (value: number, spread = 0.12) => clamp01(value + (random() - 0.5) * 2 * spread);
+        const durationMs = Math.round(150000 + random() * 150000);
+        const year = albumDefinition.releaseDate.slice(0, 4);
+
+        const track: MockTrack = {
+          id: trackId,
+          name,
+          uri: `spotify:track:${trackId}`,
+          type: 'track',
+          artists: [artistRef],
+          album,
+          duration_ms: durationMs,
+          explicit: definition.genres.includes('trap'),
+          is_local: false,
+          popularity: Math.round(Math.min(100, Math.max(0, definition.popularity + (random() - 0.6) * 20))),
+          preview_url: null,
+          track_number: index + 1,
+          ...(albumDefinition.markets ? { available_markets: albumDefinition.markets } : {}),
+          external_ids: { isrc: `QZ${definition.key.slice(0, 3).toUpperCase()}${year.slice(2)}${String(hashString(seed) % 100000).padStart(5, '0')}` },
+          external_urls: { spotify: `https://open.spotify.com/track/${trackId}` }
+        };
+
+        const { profile } = definition;
+        features.set(trackId, {
+          id: trackId,
+          uri: track.uri,
+          type: 'audio_features',
+          danceability: round(vary(profile.danceability)),
+          energy: round(vary(profile.energy)),
+          key: Math.floor(random() * 12),
+          loudness: round(profile.loudness + (random() - 0.5) * 4, 2),
+          mode: random() < 0.6 ? 1 : 0,
+          speechiness: round(vary(profile.speechiness, 0.03)),
+          acousticness: round(vary(profile.acousticness)),
+          instrumentalness: round(vary(profile.instrumentalness, 0.08)),
+          liveness: round(0.05 + random() * 0.3),
+          valence: round(vary(profile.valence, 0.15)),
+          tempo: round(profile.tempo + (random() - 0.5) * 12, 1),
+          duration_ms: durationMs,
+          time_signature: profile.tempo < 80 && random() < 0.3 ? 3 : 4
+        });
+
+        tracks.set(trackId, track);
+        artistTracks.push(track);
+
+        if (albumDefinition.regionalCopyMarkets) {
+          const copyId = fixtureId(`${seed}:regional`);
+          const copy: MockTrack = {
+            ...track,
+            id: copyId,
+            uri: `spotify:track:${copyId}`,
+            available_markets: albumDefinition.regionalCopyMarkets,
+            external_urls: { spotify: `https://open.spotify.com/track/${copyId}` }
+          };
+          features.set(copyId, { ...features.get(trackId)!, id: copyId, uri: copy.uri });
+          regionalCopies.set(trackId, { markets: albumDefinition.regionalCopyMarkets, track: copy });
+        }
+      });
+    });
+
+    tracksByArtist.set(artistId, artistTracks);
+  });
+
+  return { artists, tracks, features, tracksByArtist, regionalCopies };
+}
+
+export const catalog = buildCatalog();
+
+export function getArtistByKey(key: string): MockArtist {
+  const artist = catalog.artists.get(fixtureId(`artist:${key}`));
+  if (!artist) throw new Error(`Unknown fixture artist: ${key}`);
+  return artist;
+}
+
+export function getTracksForArtist(artistId: string): MockTrack[] {
+  return catalog.tracksByArtist.get(artistId) || [];
+}
+
+// Genre seeds offered by /recommendations/available-genre-seeds
+export const GENRE_SEEDS = [
+  'afrobeat', 'ambient', 'bluegrass', 'classical', 'country', 'dance', 'deep-house',
+  'electronic', 'folk', 'hip-hop', 'indie', 'indie-pop', 'jazz', 'k-pop', 'latin',
+  'metal', 'new-wave', 'pop', 'post-punk', 'r-n-b', 'rock', 'soul', 'synth-pop', 'techno'
+];
+
+// Playlist items are either catalog tracks, local files or unavailable (null) tracks
+export type MockPlaylistEntry =
+  | { kind: 'track'; trackId: string; addedAt: string }
+  | { kind: 'local'; name: string; artist: string; addedAt: string }
+  | { kind: 'unavailable'; addedAt: string };
+
+export interface MockPlaylist {
+  id: string;
+  name: string;
+  description: string;
+  public: boolean;
+  ownerId: string;
+  snapshotVersion: number;
+  entries: MockPlaylistEntry[];
+}
+
+export interface MockFailureRule {
+  // Endpoint path prefix (relative to /v1) the rule applies to; "*" matches everything
+  path: string;
+  status: 401 | 403 | 429 | 500 | 502 | 503;
+  method?: string;
+  // Chance (0-1) that a matching request fails; 1 when omitted
+  probability?: number;
+  // Only fail this many times, then let requests through
+  times?: number;
+  // Seconds sent in Retry-After with 429s
+  retryAfter?: number;
+}
+
+export interface MockUser {
+  id: string;
+  display_name: string;
+  email: string;
+  country: string;
+  product: 'premium' | 'free';
+  description: string;
+  topArtists: Record<MockTimeRange, string[]>;
+  savedArtists: string[];
+  playlists: MockPlaylist[];
+  failures: MockFailureRule[];
+}
+
+interface PlaylistDefinition {
+  name: string;
+  description: string;
+  artistKeys: string[];
+  size: number;
+  // Add a local file, a duplicate and an unavailable track, like real-world playlists have
+  messy?: boolean;
+}
+
+interface UserDefinition {
+  id: string;
+  displayName: string;
+  country: string;
+  product: 'premium' | 'free';
+  description: string;
+  topArtists: Record<MockTimeRange, string[]>;
+  savedArtists: string[];
+  playlists: PlaylistDefinition[];
+  failures?: MockFailureRule[];
+}
+
+const USERS: UserDefinition[] = [
+  {
+    id: 'alex',
+    displayName: 'Alex Rivera',
+    country: 'GB',
+    product: 'premium',
+    description: 'Indie and electronic listener with a few deep cuts',
+    topArtists: {
+      short_term: ['vela-circuit', 'neon-orchard', 'pulsewidth', 'cassette-honey', 'glass-harbour', 'saffron-skies'],
+      medium_term: ['glass-harbour', 'neon-orchard', 'vela-circuit', 'marrow-lane', 'dot-matrix-kids', 'cassette-honey', 'the-quiet-atlas'],
+      long_term: ['glass-harbour', 'marrow-lane', 'dot-matrix-kids', 'the-quiet-atlas', 'rosa-blue-trio', 'mirela-voss', 'untitled-field-recordings']
+    },
+    savedArtists: ['glass-harbour', 'marrow-lane', 'neon-orchard', 'the-quiet-atlas', 'cassette-honey', 'untitled-field-recordings'],
+    playlists: [
+      { name: 'Late Night Drive', description: 'Synths and streetlights', artistKeys: ['vela-circuit', 'neon-orchard', 'pulsewidth', 'dot-matrix-kids'], size: 14 },
+      { name: 'Sunday Slow', description: 'Coffee, rain, no rush', artistKeys: ['marrow-lane', 'the-quiet-atlas', 'rosa-blue-trio', 'mirela-voss', 'cassette-honey'], size: 12, messy: true },
+      { name: 'Everything, Shuffled', description: '', artistKeys: ARTISTS.map(artist => artist.key), size: 40 }
+    ]
+  },
+  {
+    id: 'sam',
+    displayName: 'Sam Okafor',
+    country: 'NG',
+    product: 'premium',
+    description: 'Hip-hop, afrobeats and R&B',
+    topArtists: {
+      short_term: ['koko-brava', 'lil-payphone', 'seoulite', 'amara-sol', 'saffron-skies'],
+      medium_term: ['koko-brava', 'dre-kingsley', 'amara-sol', 'lil-payphone', 'papel-picado'],
+      long_term: ['dre-kingsley', 'amara-sol', 'koko-brava', 'big-sky-union', 'papel-picado']
+    },
+    savedArtists: ['koko-brava', 'dre-kingsley', 'amara-sol', 'lil-payphone'],
+    playlists: [
+      { name: 'Owambe Ready', description: 'Party starters', artistKeys: ['koko-brava', 'papel-picado', 'seoulite', 'saffron-skies'], size: 12 },
+      { name: 'Bars', description: 'Lyrics first', artistKeys: ['dre-kingsley', 'lil-payphone'], size: 8, messy: true }
+    ]
+  },
+  {
+    id: 'restricted',
+    displayName: 'Robin (Development Mode)',
+    country: 'US',
+    product: 'free',
+    description: 'Audio features and recommendations return 403, like a new Development Mode app',
+    topArtists: {
+      short_term: ['big-sky-union', 'the-fennel-brothers', 'saffron-skies'],
+      medium_term: ['big-sky-union', 'the-fennel-brothers', 'iron-meadow'],
+      long_term: ['iron-meadow', 'big-sky-union', 'the-fennel-brothers', 'rosa-blue-trio']
+    },
+    savedArtists: ['big-sky-union', 'the-fennel-brothers'],
+    playlists: [
+      { name: 'Porch Songs', description: '', artistKeys: ['big-sky-union', 'the-fennel-brothers'], size: 7 }
+    ],
+    failures: [
+      { path: '/audio-features', status: 403 },
+      { path: '/recommendations', status: 403 }
+    ]
+  }
+];
+
+// Deterministic shuffle so playlists look hand-made but never change
+function seededShuffle<T>(items: T[], seed: string): T[] {
+  const random = createRandom(seed);
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Stable ISO timestamps counting back from a fixed date
+function addedAt(index: number): string {
+  return new Date(Date.UTC(2024, 9, 1) - index * 36 * 60 * 60 * 1000).toISOString();
+}
+
+function buildPlaylist(userId: string, definition: PlaylistDefinition): MockPlaylist {
+  const pool = definition.artistKeys.flatMap(key => getTracksForArtist(getArtistByKey(key).id));
+  const picked = seededShuffle(pool, `playlist:${userId}:${definition.name}`).slice(0, definition.size);
+  const entries: MockPlaylistEntry[] = picked.map((track, index) => ({
+    kind: 'track',
+    trackId: track.id,
+    addedAt: addedAt(index)
+  }));
+
+  if (definition.messy) {
+    entries.splice(2, 0, { kind: 'local', name: 'voice memo (demo take)', artist: 'Me', addedAt: addedAt(2) });
+    entries.push({ kind: 'track', trackId: picked[0].id, addedAt: addedAt(entries.length) });
+    entries.push({ kind: 'unavailable', addedAt: addedAt(entries.length) });
+  }
+
+  return {
+    id: fixtureId(`playlist:${userId}:${definition.name}`),
+    name: definition.name,
+    description: definition.description,
+    public: true,
+    ownerId: userId,
+    snapshotVersion: 1,
+    entries
+  };
+}
+
+// Build fresh user state. Playlists are mutable, so callers keep their own copy.
+export function createFixtureUsers(): Map<string, MockUser> {
+  return new Map(
+    USERS.map(definition => [
+      definition.id,
+      {
+        id: definition.id,
+        display_name: definition.displayName,
+        email: `${definition.id}@example.com`,
+        country: definition.country,
+        product: definition.product,
+        description: definition.description,
+        topArtists: {
+          short_term: definition.topArtists.short_term.map(key => getArtistByKey(key).id),
+          medium_term: definition.topArtists.medium_term.map(key => getArtistByKey(key).id),
+          long_term: definition.topArtists.long_term.map(key => getArtistByKey(key).id)
+        },
+        savedArtists: definition.savedArtists.map(key => getArtistByKey(key).id),
+        playlists: definition.playlists.map(playlist => buildPlaylist(definition.id, playlist)),
+        // Copied, since the handler counts how often each rule fired
+        failures: (definition.failures || []).map(rule => ({ ...rule }))
+      }
+    ])
+  );
+}
+
+export const FIXTURE_USER_IDS = USERS.map(user => user.id);
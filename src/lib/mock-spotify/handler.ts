@@ -0,0 +1,748 @@
+// In-process implementation of the subset of the Spotify Web API that Vibify
+// uses. It is pure request -> response so it can sit behind a Next.js route
+// handler (the offline mock server) or be called directly.
+
+import {
+  GENRE_SEEDS,
+  MockFailureRule,
+  MockPlaylist,
+  MockPlaylistEntry,
+  MockTimeRange,
+  MockTrack,
+  MockUser,
+  catalog,
+  createFixtureUsers,
+  fixtureId,
+  getTracksForArtist
+} from './fixtures';
+
+export interface MockRequest {
+  method: string;
+  // Path below the API root, e.g. "/me/top/tracks"
+  path: string;
+  searchParams: URLSearchParams;
+  accessToken: string | null;
+  body?: any;
+  // Absolute API root, used to build `href` and `next` links
+  baseUrl: string;
+}
+
+export interface MockResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+interface ActiveFailureRule extends MockFailureRule {
+  used: number;
+}
+
+interface MockState {
+  users: Map<string, MockUser>;
+  failures: ActiveFailureRule[];
+}
+
+// Kept on globalThis so every route bundle (and hot reloads) share one state
+const globalForMock = globalThis as typeof globalThis & { __vibifyMockSpotify?: MockState };
+
+function parseFailureRules(raw: string | undefined): MockFailureRule[] {
+  if (!raw) return [];
+  try {
+    const rules = JSON.parse(raw);
+    return Array.isArray(rules) ? rules : [rules];
+  } catch (error) {
+    console.error('Ignoring invalid MOCK_SPOTIFY_FAILURES:', error);
+    return [];
+  }
+}
+
+function getState(): MockState {
+  if (!globalForMock.__vibifyMockSpotify) {
+    globalForMock.__vibifyMockSpotify = {
+      users: createFixtureUsers(),
+      failures: parseFailureRules(process.env.MOCK_SPOTIFY_FAILURES).map(rule => ({ ...rule, used: 0 }))
+    };
+  }
+  return globalForMock.__vibifyMockSpotify;
+}
+
+// Throw away playlist edits and failure counters
+export function resetMockState() {
+  globalForMock.__vibifyMockSpotify = undefined;
+}
+
+export function getMockFailures(): MockFailureRule[] {
+  return getState().failures.map(({ used, ...rule }) => rule);
+}
+
+export function setMockFailures(rules: MockFailureRule[]) {
+  getState().failures = rules.map(rule => ({ ...rule, used: 0 }));
+}
+
+export function getMockUsers(): MockUser[] {
+  return Array.from(getState().users.values());
+}
+
+// Tokens look like "mock.<userId>.<issuedAtMs>" so expiry can be checked without storage
+export function createMockToken(userId: string, kind: 'access' | 'refresh' = 'access'): string {
+  return `mock${kind === 'refresh' ? '-refresh' : ''}.${userId}.${Date.now()}`;
+}
+
+export function parseMockToken(token: string, kind: 'access' | 'refresh' = 'access') {
+  const [prefix, userId, issuedAt] = token.split('.');
+  if (prefix !== (kind === 'refresh' ? 'mock-refresh' : 'mock') || !userId) return null;
+  return { userId, issuedAt: Number(issuedAt) || 0 };
+}
+
+// Access token lifetime in seconds; set MOCK_SPOTIFY_TOKEN_TTL low to exercise refreshes
+export function getMockTokenTtl(): number {
+  return Number(process.env.MOCK_SPOTIFY_TOKEN_TTL) || 3600;
+}
+
+const REASON_PHRASES: Record<number, string> = {
+  400: 'Bad request',
+  401: 'The access token expired',
+  403: 'Forbidden',
+  404: 'Resource not found',
+  405: 'Method not allowed',
+  429: 'API rate limit exceeded',
+  500: 'Server error',
+  502: 'Bad gateway',
+  503: 'Service unavailable'
+};
+
+function errorResponse(status: number, message = REASON_PHRASES[status] || 'Error', headers: Record<string, string> = {}): MockResponse {
+  return { status, headers, body: { error: { status, message } } };
+}
+
+function json(body: unknown, status = 200): MockResponse {
+  return { status, headers: {}, body };
+}
+
+// First matching rule that decides to fire, from the global list then the user's own
+function findFailure(request: MockRequest, user: MockUser | null): MockResponse | null {
+  const rules: (MockFailureRule & { used?: number })[] = [...getState().failures, ...(user?.failures || [])];
+
+  for (const rule of rules) {
+    if (rule.path !== '*' && !request.path.startsWith(rule.path)) continue;
+    if (rule.method && rule.method.toUpperCase() !== request.method) continue;
+    if (rule.times !== undefined && (rule.used || 0) >= rule.times) continue;
+    if (rule.probability !== undefined && Math.random() >= rule.probability) continue;
+
+    // Counted on the stored rule, global or per-user, so `times` applies to both
+    rule.used = (rule.used || 0) + 1;
+    const headers: Record<string, string> = rule.status === 429 ? { 'Retry-After': String(rule.retryAfter ?? 1) } : {};
+    return errorResponse(rule.status, undefined, headers);
+  }
+  return null;
+}
+
+// Spotify-style paging object with absolute next/previous links
+function paginate<T>(request: MockRequest, items: T[], defaultLimit: number, maxLimit: number): MockResponse {
+  const limit = request.searchParams.has('limit') ? Number(request.searchParams.get('limit')) : defaultLimit;
+  const offset = Number(request.searchParams.get('offset')) || 0;
+  if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) {
+    return errorResponse(400, 'Invalid limit');
+  }
+
+  const linkFor = (pageOffset: number) => {
+    const params = new URLSearchParams(request.searchParams);
+    params.set('limit', String(limit));
+    params.set('offset', String(pageOffset));
+    return `${request.baseUrl}${request.path}?${params.toString()}`;
+  };
+
+  return json({
+    href: linkFor(offset),
+    items: items.slice(offset, offset + limit),
+    limit,
+    offset,
+    total: items.length,
+    next: offset + limit < items.length ? linkFor(offset + limit) : null,
+    previous: offset > 0 ? linkFor(Math.max(0, offset - limit)) : null
+  });
+}
+
+function parseIds(request: MockRequest, max: number): string[] | MockResponse {
+  const ids = (request.searchParams.get('ids') || '').split(',').filter(Boolean);
+  if (!ids.length) return errorResponse(400, 'No ids provided');
+  if (ids.length > max) return errorResponse(400, 'Too many ids requested');
+  return ids;
+}
+
+function getTimeRange(request: MockRequest): MockTimeRange | null {
+  const range = request.searchParams.get('time_range') || 'medium_term';
+  return range === 'short_term' || range === 'medium_term' || range === 'long_term' ? range : null;
+}
+
+// Interleave each top artist's tracks so the list isn't one artist at a time
+function getTopTracks(user: MockUser, range: MockTimeRange): MockTrack[] {
+  const perArtist = user.topArtists[range].map(artistId => getTracksForArtist(artistId));
+  const longest = Math.max(0, ...perArtist.map(tracks => tracks.length));
+  const tracks: MockTrack[] = [];
+  for (let i = 0; i < longest; i++) {
+    perArtist.forEach(artistTracks => {
+      if (artistTracks[i]) tracks.push(artistTracks[i]);
+    });
+  }
+  return tracks;
+}
+
+// Liked Songs: every track by the user's saved artists
+function getSavedTracks(user: MockUser): MockTrack[] {
+  return user.savedArtists.flatMap(artistId => getTracksForArtist(artistId));
+}
+
+function snapshotId(playlist: MockPlaylist): string {
+  return `${playlist.id}-v${playlist.snapshotVersion}`;
+}
+
+function formatPlaylist(request: MockRequest, playlist: MockPlaylist, user: MockUser) {
+  return {
+    id: playlist.id,
+    name: playlist.name,
+    description: playlist.description,
+    public: playlist.public,
+    collaborative: false,
+    images: [{ url: '/placeholder.svg', height: 300, width: 300 }],
+    owner: { id: user.id, display_name: user.display_name, type: 'user' },
+    snapshot_id: snapshotId(playlist),
+    tracks: { href: `${request.baseUrl}/playlists/${playlist.id}/tracks`, total: playlist.entries.length },
+    type: 'playlist',
+    uri: `spotify:playlist:${playlist.id}`,
+    external_urls: { spotify: `https://open.spotify.com/playlist/${playlist.id}` }
+  };
+}
+
+// Market from the `market` parameter; "from_token" means the user's country
+function getMarket(request: MockRequest, user: MockUser): string | null {
+  const market = request.searchParams.get('market');
+  return market === 'from_token' ? user.country : market;
+}
+
+// With a market, tracks say whether they can be played there instead of listing their markets
+function formatTrack(track: MockTrack, market: string | null) {
+  if (!market) return track;
+  const { available_markets: markets, ...rest } = track;
+  return { ...rest, is_playable: !markets || markets.includes(market) };
+}
+
+function localUri(entry: { name: string; artist: string }): string {
+  return `spotify:local:${encodeURIComponent(entry.artist)}::${encodeURIComponent(entry.name)}:180`;
+}
+
+// URI a playlist item is removed by; unavailable tracks have none
+function entryUri(entry: MockPlaylistEntry): string | null {
+  if (entry.kind === 'track') return `spotify:track:${entry.trackId}`;
+  if (entry.kind === 'local') return localUri(entry);
+  return null;
+}
+
+// With a market that has a regional copy, the item is relinked: the copy is
+// returned, and `linked_from` points at the track actually in the playlist
+function formatPlaylistEntry(entry: MockPlaylistEntry, market: string | null) {
+  if (entry.kind === 'track') {
+    const track = catalog.tracks.get(entry.trackId);
+    const copy = catalog.regionalCopies.get(entry.trackId);
+    if (track && copy && market && copy.markets.includes(market)) {
+      const linkedFrom = { id: track.id, uri: track.uri, type: 'track', external_urls: track.external_urls };
+      return { added_at: entry.addedAt, is_local: false, track: { ...formatTrack(copy.track, market), linked_from: linkedFrom } };
+    }
+    return { added_at: entry.addedAt, is_local: false, track: track ? formatTrack(track, market) : null };
+  }
+  if (entry.kind === 'unavailable') {
+    return { added_at: entry.addedAt, is_local: false, track: null };
+  }
+  return {
+    added_at: entry.addedAt,
+    is_local: true,
+    track: {
+      id: null,
+      name: entry.name,
+      uri: localUri(entry),
+      type: 'track',
+      is_local: true,
+      artists: [{ id: null, name: entry.artist, uri: null, external_urls: {} }],
+      album: { id: null, name: '', release_date: null, release_date_precision: null, images: [] },
+      duration_ms: 180000,
+      popularity: 0,
+      preview_url: null,
+      external_ids: {},
+      external_urls: {}
+    }
+  };
+}
+
+function findPlaylist(playlistId: string): { playlist: MockPlaylist; owner: MockUser } | null {
+  for (const owner of Array.from(getState().users.values())) {
+    const playlist = owner.playlists.find(candidate => candidate.id === playlistId);
+    if (playlist) return { playlist, owner };
+  }
+  return null;
+}
+
+// Playlists are created for the path's user, who has to be the token's user
+function createPlaylist(request: MockRequest, user: MockUser, userId: string): MockResponse {
+  if (userId !== user.id) return errorResponse(403, 'You cannot create a playlist for another user');
+
+  const { name, description = '', public: isPublic = true } = request.body || {};
+  if (typeof name !== 'string' || !name.trim()) return errorResponse(400, 'Missing required field: name');
+
+  const playlist: MockPlaylist = {
+    id: fixtureId(`${user.id}:created:${user.playlists.length}:${Date.now()}`),
+    name,
+    description: String(description),
+    public: isPublic !== false,
+    ownerId: user.id,
+    snapshotVersion: 1,
+    entries: []
+  };
+  // Newest playlists are listed first, like in the Spotify app
+  user.playlists.unshift(playlist);
+  return json(formatPlaylist(request, playlist, user), 201);
+}
+
+const TRACK_URI_PATTERN = /^spotify:track:([0-9A-Za-z]{22})$/;
+
+// Add tracks by URI, from the JSON body or the `uris` query parameter
+function addPlaylistTracks(request: MockRequest, user: MockUser, playlistId: string): MockResponse {
+  const found = findPlaylist(playlistId);
+  if (!found) return errorResponse(404, 'Playlist not found');
+  if (found.owner.id !== user.id) return errorResponse(403, 'You cannot add tracks to a playlist you don\'t own.');
+
+  const uris: unknown = request.body?.uris ?? request.searchParams.get('uris')?.split(',');
+  if (!Array.isArray(uris) || !uris.length) return errorResponse(400, 'No uris provided');
+  if (uris.length > 100) return errorResponse(400, 'You can add a maximum of 100 tracks per request.');
+
+  const trackIds: string[] = [];
+  for (const uri of uris) {
+    const match = typeof uri === 'string' ? uri.match(TRACK_URI_PATTERN) : null;
+    if (!match) return errorResponse(400, `Invalid track uri: ${uri}`);
+    if (!catalog.tracks.has(match[1])) return errorResponse(400, 'Payload contains a non-existing ID');
+    trackIds.push(match[1]);
+  }
+
+  const { entries } = found.playlist;
+  const position = typeof request.body?.position === 'number' ? request.body.position : entries.length;
+  if (position < 0 || position > entries.length) return errorResponse(400, 'Index out of bounds');
+
+  const addedAt = new Date().toISOString();
+  entries.splice(position, 0, ...trackIds.map(trackId => ({ kind: 'track' as const, trackId, addedAt })));
+  found.playlist.snapshotVersion++;
+  return json({ snapshot_id: snapshotId(found.playlist) }, 201);
+}
+
+// Move a range of items (range_start, insert_before, range_length), or replace
+// every item with up to 100 `uris`. Spotify resolves positions against an older
+// snapshot_id; the mock only keeps the current version, so it refuses stale ones.
+function updatePlaylistTracks(request: MockRequest, user: MockUser, playlistId: string): MockResponse {
+  const found = findPlaylist(playlistId);
+  if (!found) return errorResponse(404, 'Playlist not found');
+  if (found.owner.id !== user.id) return errorResponse(403, 'You cannot reorder a playlist you don\'t own.');
+
+  const { playlist } = found;
+  const body = request.body || {};
+  if (body.snapshot_id !== undefined && body.snapshot_id !== snapshotId(playlist)) {
+    return errorResponse(400, 'Invalid snapshot id');
+  }
+
+  if (Array.isArray(body.uris)) {
+    if (body.uris.length > 100) return errorResponse(400, 'You can add a maximum of 100 tracks per request.');
+    const trackIds: string[] = [];
+    for (const uri of body.uris) {
+      const match = typeof uri === 'string' ? uri.match(TRACK_URI_PATTERN) : null;
+      if (!match || !catalog.tracks.has(match[1])) return errorResponse(400, `Invalid track uri: ${uri}`);
+      trackIds.push(match[1]);
+    }
+    const addedAt = new Date().toISOString();
+    playlist.entries = trackIds.map(trackId => ({ kind: 'track' as const, trackId, addedAt }));
+  } else {
+    const { range_start: rangeStart, insert_before: insertBefore, range_length: rangeLength = 1 } = body;
+    const { entries } = playlist;
+    if (!Number.isInteger(rangeStart) || !Number.isInteger(insertBefore) || !Number.isInteger(rangeLength) || rangeLength < 1) {
+      return errorResponse(400, 'Missing required fields: range_start and insert_before');
+    }
+    if (rangeStart < 0 || rangeStart + rangeLength > entries.length || insertBefore < 0 || insertBefore > entries.length) {
+      return errorResponse(400, 'Index out of bounds');
+    }
+
+    // Inserting inside the moved range leaves the playlist as it is
+    if (insertBefore < rangeStart || insertBefore > rangeStart + rangeLength) {
+      const moved = entries.splice(rangeStart, rangeLength);
+      const target = insertBefore > rangeStart ? insertBefore - rangeLength : insertBefore;
+      entries.splice(target, 0, ...moved);
+    }
+  }
+
+  playlist.snapshotVersion++;
+  return json({ snapshot_id: snapshotId(playlist) });
+}
+
+// Remove items by URI: every occurrence, or only the given positions. Like
+// reorders, positions are checked against the current snapshot only.
+function removePlaylistTracks(request: MockRequest, user: MockUser, playlistId: string): MockResponse {
+  const found = findPlaylist(playlistId);
+  if (!found) return errorResponse(404, 'Playlist not found');
+  if (found.owner.id !== user.id) return errorResponse(403, 'You cannot remove tracks from a playlist you don\'t own.');
+
+  const { playlist } = found;
+  const body = request.body || {};
+  if (body.snapshot_id !== undefined && body.snapshot_id !== snapshotId(playlist)) {
+    return errorResponse(400, 'Invalid snapshot id');
+  }
+  if (!Array.isArray(body.tracks) || !body.tracks.length) return errorResponse(400, 'Missing required field: tracks');
+  if (body.tracks.length > 100) return errorResponse(400, 'Too many tracks requested. Maximum is 100.');
+
+  const removed = new Set<number>();
+  for (const item of body.tracks) {
+    if (typeof item?.uri !== 'string') return errorResponse(400, 'Each track needs a uri');
+    if (Array.isArray(item.positions)) {
+      for (const position of item.positions) {
+        const entry = playlist.entries[position];
+        if (!entry || entryUri(entry) !== item.uri) {
+          return errorResponse(400, `Could not remove tracks, please check parameters. No ${item.uri} at position ${position}`);
+        }
+        removed.add(position);
+      }
+    } else {
+      playlist.entries.forEach((entry, position) => {
+        if (entryUri(entry) === item.uri) removed.add(position);
+      });
+    }
+  }
+
+  playlist.entries = playlist.entries.filter((_, position) => !removed.has(position));
+  playlist.snapshotVersion++;
+  return json({ snapshot_id: snapshotId(playlist) });
+}
+
+const TUNABLE_ATTRIBUTES = [
+  'acousticness', 'danceability', 'duration_ms', 'energy', 'instrumentalness', 'key',
+  'liveness', 'loudness', 'mode', 'popularity', 'speechiness', 'tempo', 'time_signature', 'valence'
+] as const;
+
+type TunableAttribute = typeof TUNABLE_ATTRIBUTES[number];
+
+// Rough range of each attribute, used to normalise target distances
+const ATTRIBUTE_SCALE: Partial<Record<TunableAttribute, number>> = {
+  duration_ms: 300000,
+  key: 11,
+  loudness: 60,
+  popularity: 100,
+  tempo: 200,
+  time_signature: 4
+};
+
+function attributeValue(track: MockTrack, attribute: TunableAttribute): number | undefined {
+  if (attribute === 'popularity') return track.popularity;
+  const features = catalog.features.get(track.id);
+  return features ? features[attribute] : undefined;
+}
+
+// Spotify genre seeds are hyphenated ("hip-hop", "r-n-b"); artist genres are not
+function normalizeGenre(genre: string): string {
+  return genre.toLowerCase().replace(/&/g, '-n-').replace(/\s+/g, '-');
+}
+
+function getRecommendations(request: MockRequest): MockResponse {
+  const listParam = (name: string) => (request.searchParams.get(name) || '').split(',').filter(Boolean);
+  const seedTracks = listParam('seed_tracks');
+  const seedArtists = listParam('seed_artists');
+  const seedGenres = listParam('seed_genres');
+  const seedCount = seedTracks.length + seedArtists.length + seedGenres.length;
+
+  if (seedCount === 0) return errorResponse(400, 'At least one seed is required');
+  if (seedCount > 5) return errorResponse(400, 'Only up to 5 seeds allowed');
+
+  const limit = Number(request.searchParams.get('limit')) || 20;
+  if (limit < 1 || limit > 100) return errorResponse(400, 'Invalid limit');
+
+  const unknownTrack = seedTracks.find(id => !catalog.tracks.has(id));
+  if (unknownTrack) return errorResponse(400, `Invalid track id: ${unknownTrack}`);
+  const unknownArtist = seedArtists.find(id => !catalog.artists.has(id));
+  if (unknownArtist) return errorResponse(400, `Invalid artist id: ${unknownArtist}`);
+  const unknownGenre = seedGenres.find(genre => !GENRE_SEEDS.includes(genre));
+  if (unknownGenre) return errorResponse(400, `Invalid genre seed: ${unknownGenre}`);
+
+  const relatedArtists = new Set(seedArtists);
+  seedTracks.forEach(id => catalog.tracks.get(id)!.artists.forEach(artist => relatedArtists.add(artist.id)));
+  const relatedGenres = new Set<string>();
+  relatedArtists.forEach(id => catalog.artists.get(id)?.genres.forEach(genre => relatedGenres.add(normalizeGenre(genre))));
+
+  // Centre of the seed tracks' sound
+  const seedFeatures = seedTracks.map(id => catalog.features.get(id)!);
+  const centroid = seedFeatures.length
+    ? (['danceability', 'energy', 'valence', 'acousticness'] as const).map(
+        key => seedFeatures.reduce((sum, features) => sum + features[key], 0) / seedFeatures.length
+      )
+    : null;
+
+  const seedTrackSet = new Set(seedTracks);
+  const candidates = Array.from(catalog.tracks.values()).filter(track => {
+    if (seedTrackSet.has(track.id)) return false;
+    return TUNABLE_ATTRIBUTES.every(attribute => {
+      const value = attributeValue(track, attribute);
+      if (value === undefined) return true;
+      const min = request.searchParams.get(`min_${attribute}`);
+      const max = request.searchParams.get(`max_${attribute}`);
+      return (min === null || value >= Number(min)) && (max === null || value <= Number(max));
+    });
+  });
+
+  const scored = candidates.map(track => {
+    const artist = catalog.artists.get(track.artists[0].id)!;
+    const genres = artist.genres.map(normalizeGenre);
+    let score = 0;
+
+    if (relatedArtists.has(artist.id)) score += 1.5;
+    score += genres.filter(genre => relatedGenres.has(genre)).length * 0.75;
+    if (seedGenres.some(seed => genres.some(genre => genre.includes(seed)))) score += 1.5;
+
+    if (centroid) {
+      const features = catalog.features.get(track.id)!;
+      const values = [features.danceability, features.energy, features.valence, features.acousticness];
+      score -= Math.sqrt(values.reduce((sum, value, i) => sum + (value - centroid[i]) ** 2, 0));
+    }
+
+    TUNABLE_ATTRIBUTES.forEach(attribute => {
+      const target = request.searchParams.get(`target_${attribute}`);
+      const value = attributeValue(track, attribute);
+      if (target === null || value === undefined) return;
+      score -= Math.abs(value - Number(target)) / (ATTRIBUTE_SCALE[attribute] || 1);
+    });
+
+    return { track, score };
+  });
+
+  scored.sort((a, b) => b.score - a.score || a.track.id.localeCompare(b.track.id));
+  const tracks = scored.slice(0, limit).map(({ track }) => track);
+
+  const seeds = [
+    ...seedTracks.map(id => ({ id, type: 'TRACK' })),
+    ...seedArtists.map(id => ({ id, type: 'ARTIST' })),
+    ...seedGenres.map(id => ({ id, type: 'GENRE' }))
+  ].map(seed => ({
+    ...seed,
+    initialPoolSize: catalog.tracks.size,
+    afterFilteringSize: candidates.length,
+    afterRelinkingSize: candidates.length,
+    href: null
+  }));
+
+  return json({ tracks, seeds });
+}
+
+type RouteHandler = (request: MockRequest, user: MockUser, params: string[]) => MockResponse;
+
+const ROUTES: { method: string; pattern: RegExp; handler: RouteHandler }[] = [
+  {
+    method: 'GET',
+    pattern: /^\/me$/,
+    handler: (_request, user) =>
+      json({
+        id: user.id,
+        display_name: user.display_name,
+        email: user.email,
+        country: user.country,
+        product: user.product,
+        images: [],
+        followers: { href: null, total: 0 },
+        type: 'user',
+        uri: `spotify:user:${user.id}`,
+        external_urls: { spotify: `https://open.spotify.com/user/${user.id}` }
+      })
+  },
+  {
+    method: 'GET',
+    pattern: /^\/me\/top\/(tracks|artists)$/,
+    handler: (request, user, [type]) => {
+      const range = getTimeRange(request);
+      if (!range) return errorResponse(400, 'Invalid time range');
+      const items = type === 'artists'
+        ? user.topArtists[range].map(id => catalog.artists.get(id)!)
+        : getTopTracks(user, range);
+      return paginate<unknown>(request, items, 20, 50);
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/me\/playlists$/,
+    handler: (request, user) =>
+      paginate(request, user.playlists.map(playlist => formatPlaylist(request, playlist, user)), 20, 50)
+  },
+  {
+    method: 'GET',
+    pattern: /^\/me\/tracks$/,
+    handler: (request, user) => {
+      const saved = getSavedTracks(user).map((track, index) => ({
+        added_at: new Date(Date.UTC(2024, 8, 30) - index * 86400000).toISOString(),
+        track
+      }));
+      return paginate(request, saved, 20, 50);
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/me\/tracks\/contains$/,
+    handler: (request, user) => {
+      const ids = parseIds(request, 50);
+      if (!Array.isArray(ids)) return ids;
+      const saved = new Set(getSavedTracks(user).map(track => track.id));
+      return json(ids.map(id => saved.has(id)));
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/me\/player\/recently-played$/,
+    handler: (request, user) => {
+      const limit = Number(request.searchParams.get('limit')) || 20;
+      if (limit < 1 || limit > 50) return errorResponse(400, 'Invalid limit');
+      const items = getTopTracks(user, 'short_term')
+        .slice(0, limit)
+        .map((track, index) => ({
+          played_at: new Date(Date.now() - (index + 1) * 4 * 60 * 1000).toISOString(),
+          track,
+          context: null
+        }));
+      return json({ items, limit, next: null, cursors: null, href: `${request.baseUrl}${request.path}` });
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/playlists\/([^/]+)$/,
+    handler: (request, _user, [playlistId]) => {
+      const found = findPlaylist(playlistId);
+      if (!found) return errorResponse(404, 'Playlist not found');
+      return json(formatPlaylist(request, found.playlist, found.owner));
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/users\/([^/]+)\/playlists$/,
+    handler: (request, user, [userId]) => createPlaylist(request, user, userId)
+  },
+  {
+    method: 'GET',
+    pattern: /^\/playlists\/([^/]+)\/tracks$/,
+    handler: (request, user, [playlistId]) => {
+      const found = findPlaylist(playlistId);
+      if (!found) return errorResponse(404, 'Playlist not found');
+      const market = getMarket(request, user);
+      return paginate(request, found.playlist.entries.map(entry => formatPlaylistEntry(entry, market)), 100, 100);
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/playlists\/([^/]+)\/tracks$/,
+    handler: (request, user, [playlistId]) => addPlaylistTracks(request, user, playlistId)
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/playlists\/([^/]+)\/tracks$/,
+    handler: (request, user, [playlistId]) => updatePlaylistTracks(request, user, playlistId)
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/playlists\/([^/]+)\/tracks$/,
+    handler: (request, user, [playlistId]) => removePlaylistTracks(request, user, playlistId)
+  },
+  {
+    method: 'GET',
+    pattern: /^\/audio-features$/,
+    handler: request => {
+      const ids = parseIds(request, 100);
+      if (!Array.isArray(ids)) return ids;
+      return json({ audio_features: ids.map(id => catalog.features.get(id) || null) });
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/audio-features\/([^/]+)$/,
+    handler: (_request, _user, [trackId]) => {
+      const features = catalog.features.get(trackId);
+      return features ? json(features) : errorResponse(404, 'Analysis not found');
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/artists$/,
+    handler: request => {
+      const ids = parseIds(request, 50);
+      if (!Array.isArray(ids)) return ids;
+      return json({ artists: ids.map(id => catalog.artists.get(id) || null) });
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/artists\/([^/]+)$/,
+    handler: (_request, _user, [artistId]) => {
+      const artist = catalog.artists.get(artistId);
+      return artist ? json(artist) : errorResponse(404, 'Artist not found');
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/artists\/([^/]+)\/top-tracks$/,
+    handler: (_request, _user, [artistId]) => {
+      if (!catalog.artists.has(artistId)) return errorResponse(404, 'Artist not found');
+      const tracks = [...getTracksForArtist(artistId)].sort((a, b) => b.popularity - a.popularity).slice(0, 10);
+      return json({ tracks });
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/tracks$/,
+    handler: request => {
+      const ids = parseIds(request, 50);
+      if (!Array.isArray(ids)) return ids;
+      return json({ tracks: ids.map(id => catalog.tracks.get(id) || null) });
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/tracks\/([^/]+)$/,
+    handler: (_request, _user, [trackId]) => {
+      const track = catalog.tracks.get(trackId);
+      return track ? json(track) : errorResponse(404, 'Track not found');
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/recommendations$/,
+    handler: request => getRecommendations(request)
+  },
+  {
+    method: 'GET',
+    pattern: /^\/recommendations\/available-genre-seeds$/,
+    handler: () => json({ genres: GENRE_SEEDS })
+  }
+];
+
+export function handleMockSpotifyRequest(request: MockRequest): MockResponse {
+  const method = request.method.toUpperCase();
+  const normalized = { ...request, method, path: request.path.replace(/\/+$/, '') || '/' };
+
+  // Authentication first, like the real API
+  const token = normalized.accessToken ? parseMockToken(normalized.accessToken) : null;
+  const user = token ? getState().users.get(token.userId) || null : null;
+  if (!token || !user) {
+    return errorResponse(401, 'Invalid access token');
+  }
+  if (Date.now() - token.issuedAt > getMockTokenTtl() * 1000) {
+    return errorResponse(401, 'The access token expired');
+  }
+
+  const failure = findFailure(normalized, user);
+  if (failure) return failure;
+
+  let pathMatched = false;
+  for (const route of ROUTES) {
+    const match = normalized.path.match(route.pattern);
+    if (!match) continue;
+    pathMatched = true;
+    if (route.method !== method) continue;
+    return route.handler(normalized, user, match.slice(1).map(decodeURIComponent));
+  }
+
+  return pathMatched ? errorResponse(405) : errorResponse(404, 'Service not found');
+}
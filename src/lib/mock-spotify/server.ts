@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { MockResponse } from './handler';
+
+// The mock server routes only answer when explicitly switched on
+export function isMockServerEnabled(): boolean {
+  return process.env.SPOTIFY_MOCK_SERVER === 'true';
+}
+
+export function mockServerDisabledResponse() {
+  return NextResponse.json(
+    { error: { status: 404, message: 'Mock Spotify server is disabled. Set SPOTIFY_MOCK_SERVER=true to enable it.' } },
+    { status: 404 }
+  );
+}
+
+export function toNextResponse(result: MockResponse) {
+  if (result.status === 204 || result.body === undefined) {
+    return new NextResponse(null, { status: result.status, headers: result.headers });
+  }
+  return NextResponse.json(result.body, { status: result.status, headers: result.headers });
+}
@@ -0,0 +1,109 @@
+// Mood classifier on the valence/energy plane.
+// Averaging valence and energy into one score can't tell a calm happy
+// playlist from an angry intense one, so each track is placed in one of four
+// regions instead: euphoric (happy, intense), tense (dark, intense),
+// chill (happy, calm) and melancholy (dark, calm).
+
+import { AudioFeatures } from './audio-features';
+
+export type MoodQuadrant = 'euphoric' | 'tense' | 'chill' | 'melancholy';
+
+export interface MoodQuadrantInfo {
+  label: string;
+  description: string;
+  color: string;
+}
+
+export const MOOD_QUADRANTS: Record<MoodQuadrant, MoodQuadrantInfo> = {
+  euphoric: { label: 'Euphoric', description: 'Upbeat and energetic', color: '#facc15' },
+  tense: { label: 'Tense', description: 'Dark and intense', color: '#ef4444' },
+  chill: { label: 'Chill', description: 'Positive and relaxed', color: '#22c55e' },
+  melancholy: { label: 'Melancholy', description: 'Sad and subdued', color: '#6366f1' }
+};
+
+// Both axes split at the middle of their 0-1 range
+export const MOOD_MIDPOINT = 0.5;
+
+export interface TrackMood {
+  id: string;
+  name: string;
+  artist: string;
+  valence: number;
+  energy: number;
+  mood: MoodQuadrant;
+  // Distance from the middle of the plane, 0-1: tracks near the middle are ambiguous
+  strength: number;
+}
+
+export interface MoodMixEntry {
+  mood: MoodQuadrant;
+  label: string;
+  count: number;
+  // Share of the classified tracks, 0-1
+  share: number;
+}
+
+export interface MoodMix {
+  entries: MoodMixEntry[];
+  dominant: MoodQuadrant | null;
+  // Tracks left out because they only had neutral fallback features
+  unclassified: number;
+}
+
+export function classifyMood(valence: number, energy: number): MoodQuadrant {
+  if (energy >= MOOD_MIDPOINT) return valence >= MOOD_MIDPOINT ? 'euphoric' : 'tense';
+  return valence >= MOOD_MIDPOINT ? 'chill' : 'melancholy';
+}
+
+// Label each track that has real audio features; fallback estimates all sit in
+// the middle of the plane and would only add noise
+export function classifyTrackMoods(
+  tracks: { id: string; name: string; artists?: { name: string }[] }[],
+  features: AudioFeatures[]
+): TrackMood[] {
+  const featuresById = new Map(features.filter(Boolean).map(feature => [feature.id, feature]));
+  const moods: TrackMood[] = [];
+
+  tracks.forEach(track => {
+    const feature = track && featuresById.get(track.id);
+    if (!feature || feature.source === 'fallback') return;
+
+    const dx = feature.valence - MOOD_MIDPOINT;
+    const dy = feature.energy - MOOD_MIDPOINT;
+    moods.push({
+      id: track.id,
+      name: track.name,
+      artist: track.artists?.[0]?.name || 'Unknown artist',
+      valence: feature.valence,
+      energy: feature.energy,
+      mood: classifyMood(feature.valence, feature.energy),
+      strength: Math.min(Math.sqrt(dx * dx + dy * dy) / Math.SQRT1_2, 1)
+    });
+  });
+
+  return moods;
+}
+
+// Count tracks per region; `total` is how many tracks were analyzed in all
+export function calculateMoodMix(moods: TrackMood[], total = moods.length): MoodMix {
+  const entries = (Object.keys(MOOD_QUADRANTS) as MoodQuadrant[]).map(mood => {
+    const count = moods.filter(track => track.mood === mood).length;
+    return {
+      mood,
+      label: MOOD_QUADRANTS[mood].label,
+      count,
+      share: moods.length ? count / moods.length : 0
+    };
+  });
+
+  const dominant = entries.reduce<MoodMixEntry | null>(
+    (best, entry) => (entry.count > 0 && (!best || entry.count > best.count) ? entry : best),
+    null
+  );
+
+  return {
+    entries,
+    dominant: dominant?.mood || null,
+    unclassified: Math.max(total - moods.length, 0)
+  };
+}
@@ -0,0 +1,143 @@
+// Outlier detection: the tracks that break a playlist's vibe.
+// Each track is scored on its distance from the playlist's average sound
+// (the feature centroid) and on how few other tracks share its genres, and
+// the biggest outliers come with a plain-language explanation.
+
+import { AudioFeatureKey, AudioFeatures, VECTOR_FEATURES, featureDistance, featureVector } from './audio-features';
+
+export interface OutlierCandidate {
+  id: string;
+  name: string;
+  artist: string;
+  // Position and URI of the item in the playlist, for moving it elsewhere
+  position: number;
+  uri: string;
+  features: AudioFeatures;
+  // Distinct genres of the track's artists
+  genres: string[];
+}
+
+export interface FeatureDeviation {
+  key: AudioFeatureKey;
+  value: number;
+  mean: number;
+  // Standard deviations from the playlist mean
+  z: number;
+}
+
+export interface TrackOutlier {
+  track: OutlierCandidate;
+  // Distance from the playlist's feature centroid, 0-1
+  distance: number;
+  // Share of the other tracks sharing none of its genres, 0-1; null when its artists have no genres
+  genreMismatch: number | null;
+  score: number;
+  // Features furthest from the playlist mean, biggest first
+  deviations: FeatureDeviation[];
+  reasons: string[];
+}
+
+export interface OutlierAnalysis {
+  outliers: TrackOutlier[];
+  // Tracks with real audio features that were compared
+  analyzed: number;
+}
+
+// Fewer tracks than this don't have a vibe to break
+export const MIN_OUTLIER_TRACKS = 5;
+const MAX_OUTLIERS = 5;
+// Score a track needs to count as an outlier: standard deviations of centroid
+// distance above the playlist's average, plus up to one for a genre mismatch
+const MIN_OUTLIER_SCORE = 1.5;
+const GENRE_WEIGHT = 1;
+// How far (in standard deviations) a feature must be from the mean to be named
+const MIN_DEVIATION = 1.5;
+const MAX_REASONS = 3;
+const MIN_GENRE_MISMATCH = 0.75;
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function standardDeviation(values: number[], average: number): number {
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length);
+}
+
+function formatValue(key: AudioFeatureKey, value: number): string {
+  if (key === 'tempo') return `${Math.round(value)} BPM`;
+  if (key === 'loudness') return `${value.toFixed(1)} dB`;
+  return value.toFixed(2);
+}
+
+// e.g. "energy 0.92 vs playlist mean 0.35"
+export function describeDeviation(deviation: FeatureDeviation): string {
+  return `${deviation.key} ${formatValue(deviation.key, deviation.value)} vs playlist mean ${formatValue(deviation.key, deviation.mean)}`;
+}
+
+function describeGenres(genres: string[], mismatch: number): string {
+  const names = genres.slice(0, 2).join(', ');
+  return mismatch === 1
+    ? `no other track shares its genres (${names})`
+    : `only ${Math.round((1 - mismatch) * 100)}% of the playlist shares its genres (${names})`;
+}
+
+// Share of the other tracks (with known genres) that share none of this track's genres
+function genreMismatch(track: OutlierCandidate, others: OutlierCandidate[]): number | null {
+  if (!track.genres.length) return null;
+  const known = others.filter(other => other.genres.length > 0);
+  if (!known.length) return null;
+  const genres = new Set(track.genres);
+  const sharing = known.filter(other => other.genres.some(genre => genres.has(genre))).length;
+  return 1 - sharing / known.length;
+}
+
+export function findOutliers(candidates: OutlierCandidate[]): OutlierAnalysis {
+  const tracks = candidates.filter(track => track.features && track.features.source !== 'fallback');
+  if (tracks.length < MIN_OUTLIER_TRACKS) return { outliers: [], analyzed: tracks.length };
+
+  const vectors = tracks.map(track => featureVector(track.features));
+  const centroid = VECTOR_FEATURES.map((_, i) => mean(vectors.map(vector => vector[i])));
+  const distances = vectors.map(vector => featureDistance(vector, centroid));
+  const meanDistance = mean(distances);
+  const distanceSpread = standardDeviation(distances, meanDistance) || 1;
+
+  const stats = VECTOR_FEATURES.map(key => {
+    const values = tracks.map(track => Number(track.features[key]));
+    const average = mean(values);
+    return { key, mean: average, spread: standardDeviation(values, average) };
+  });
+
+  const scored = tracks.map((track, i) => {
+    const mismatch = genreMismatch(track, tracks.filter((_, j) => j !== i));
+    const deviations = stats
+      .filter(stat => stat.spread > 0)
+      .map(stat => {
+        const value = Number(track.features[stat.key]);
+        return { key: stat.key, value, mean: stat.mean, z: (value - stat.mean) / stat.spread };
+      })
+      .filter(deviation => Math.abs(deviation.z) >= MIN_DEVIATION)
+      .sort((a, b) => Math.abs(b.z) - Math.abs(a.z));
+
+    const reasons = deviations.slice(0, MAX_REASONS).map(describeDeviation);
+    if (mismatch !== null && mismatch >= MIN_GENRE_MISMATCH) {
+      reasons.push(describeGenres(track.genres, mismatch));
+    }
+
+    return {
+      track,
+      distance: distances[i],
+      genreMismatch: mismatch,
+      score: (distances[i] - meanDistance) / distanceSpread + GENRE_WEIGHT * (mismatch ?? 0),
+      deviations,
+      reasons
+    };
+  });
+
+  return {
+    outliers: scored
+      .filter(outlier => outlier.score >= MIN_OUTLIER_SCORE && outlier.reasons.length > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_OUTLIERS),
+    analyzed: tracks.length
+  };
+}
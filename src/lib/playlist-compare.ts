@@ -0,0 +1,157 @@
+// Side-by-side comparison of two track lists (two playlists, or a playlist
+// and the user's top tracks): feature averages, genre shares, track and
+// artist overlap, and the tracks that sit between the two sounds.
+
+import {
+  AudioFeatures,
+  CHART_FEATURES,
+  FEATURE_LABELS,
+  averageFeatures,
+  featureDistance,
+  featureVector,
+  normalizeFeature
+} from './audio-features';
+
+export interface ComparisonTrack {
+  id: string | null;
+  name: string;
+  artists?: { id?: string | null; name: string }[];
+  album?: { images?: { url: string }[] };
+  external_urls?: { spotify?: string };
+}
+
+export interface ComparisonSide {
+  label: string;
+  tracks: ComparisonTrack[];
+  features: AudioFeatures[];
+  // Weighted genre counts, without the unknown-genre bucket
+  genres: { name: string; value: number }[];
+}
+
+export interface Overlap {
+  shared: number;
+  // Size of the intersection over the size of the union, 0-1
+  jaccard: number;
+}
+
+export interface GenreDifference {
+  name: string;
+  // Share of each side's genre weight, 0-100
+  a: number;
+  b: number;
+}
+
+export interface BetweenTrack {
+  track: ComparisonTrack;
+  // Which list the track is from; "both" when it is in both
+  from: 'a' | 'b' | 'both';
+  // Distance to each side's average sound, 0-1
+  distanceA: number;
+  distanceB: number;
+}
+
+export interface PlaylistComparison {
+  trackOverlap: Overlap;
+  artistOverlap: Overlap & { sharedNames: string[] };
+  // Average features of each side, 0-100, for an overlaid radar
+  features: { name: string; a: number; b: number }[];
+  // How close the two average sounds are, 0-100
+  vibeMatch: number | null;
+  genres: GenreDifference[];
+  between: BetweenTrack[];
+}
+
+const MAX_GENRES = 10;
+const MAX_BETWEEN_TRACKS = 8;
+
+export function jaccard<T>(a: Set<T>, b: Set<T>): Overlap {
+  const shared = Array.from(a).filter(item => b.has(item)).length;
+  const union = a.size + b.size - shared;
+  return { shared, jaccard: union ? shared / union : 0 };
+}
+
+function centroid(features: AudioFeatures[]): number[] | null {
+  const real = features.filter(feature => feature && feature.source !== 'fallback');
+  if (!real.length) return null;
+  const vectors = real.map(featureVector);
+  return vectors[0].map((_, i) => vectors.reduce((sum, vector) => sum + vector[i], 0) / vectors.length);
+}
+
+function genreShares(genres: ComparisonSide['genres']): Map<string, number> {
+  const total = genres.reduce((sum, genre) => sum + genre.value, 0);
+  return new Map(genres.map(genre => [genre.name, total ? (genre.value / total) * 100 : 0]));
+}
+
+// Genres with the biggest combined share, largest difference first
+function compareGenres(a: ComparisonSide, b: ComparisonSide): GenreDifference[] {
+  const sharesA = genreShares(a.genres);
+  const sharesB = genreShares(b.genres);
+  const names = Array.from(new Set([...Array.from(sharesA.keys()), ...Array.from(sharesB.keys())]));
+
+  return names
+    .map(name => ({ name, a: Math.round(sharesA.get(name) || 0), b: Math.round(sharesB.get(name) || 0) }))
+    .sort((x, y) => y.a + y.b - (x.a + x.b))
+    .slice(0, MAX_GENRES)
+    .sort((x, y) => Math.abs(y.a - y.b) - Math.abs(x.a - x.b));
+}
+
+// Tracks from either side whose sound is closest to both averages at once
+function findBetweenTracks(a: ComparisonSide, b: ComparisonSide, centroidA: number[], centroidB: number[]): BetweenTrack[] {
+  const idsA = new Set(a.tracks.map(track => track.id).filter(Boolean));
+  const idsB = new Set(b.tracks.map(track => track.id).filter(Boolean));
+  const featuresById = new Map(
+    [...a.features, ...b.features]
+      .filter(feature => feature && feature.source !== 'fallback')
+      .map(feature => [feature.id, feature])
+  );
+
+  const seen = new Set<string>();
+  const candidates: BetweenTrack[] = [];
+  [...a.tracks, ...b.tracks].forEach(track => {
+    if (!track.id || seen.has(track.id)) return;
+    seen.add(track.id);
+    const features = featuresById.get(track.id);
+    if (!features) return;
+
+    const vector = featureVector(features);
+    candidates.push({
+      track,
+      from: idsA.has(track.id) && idsB.has(track.id) ? 'both' : idsA.has(track.id) ? 'a' : 'b',
+      distanceA: featureDistance(vector, centroidA),
+      distanceB: featureDistance(vector, centroidB)
+    });
+  });
+
+  return candidates
+    .sort((x, y) => Math.max(x.distanceA, x.distanceB) - Math.max(y.distanceA, y.distanceB))
+    .slice(0, MAX_BETWEEN_TRACKS);
+}
+
+export function comparePlaylists(a: ComparisonSide, b: ComparisonSide): PlaylistComparison {
+  const trackIds = (side: ComparisonSide) => new Set(side.tracks.map(track => track.id).filter((id): id is string => !!id));
+  const artistNames = (side: ComparisonSide) =>
+    new Set(side.tracks.flatMap(track => (track.artists || []).map(artist => artist.name)).filter(Boolean));
+
+  const namesA = artistNames(a);
+  const namesB = artistNames(b);
+  const averagesA = averageFeatures(a.features);
+  const averagesB = averageFeatures(b.features);
+  const centroidA = centroid(a.features);
+  const centroidB = centroid(b.features);
+
+  return {
+    trackOverlap: jaccard(trackIds(a), trackIds(b)),
+    artistOverlap: {
+      ...jaccard(namesA, namesB),
+      sharedNames: Array.from(namesA).filter(name => namesB.has(name))
+    },
+    features: CHART_FEATURES.map(key => ({
+      name: FEATURE_LABELS[key],
+      a: averagesA ? Math.round(normalizeFeature(key, averagesA[key]) * 100) : 0,
+      b: averagesB ? Math.round(normalizeFeature(key, averagesB[key]) * 100) : 0
+    })),
+    vibeMatch: centroidA && centroidB ? Math.round((1 - featureDistance(centroidA, centroidB)) * 100) : null,
+    genres: compareGenres(a, b),
+    between: centroidA && centroidB ? findBetweenTracks(a, b, centroidA, centroidB) : []
+  };
+}
@@ -0,0 +1,116 @@
+// Playlist health scanner: exact and likely duplicates, tracks that can't be
+// played in the user's market, local files and tracks removed from Spotify.
+// Works on raw playlist items fetched with `market=from_token`.
+
+export type HealthIssueKind = 'duplicate' | 'likely-duplicate' | 'unplayable' | 'local' | 'unavailable';
+
+export const HEALTH_ISSUES: Record<HealthIssueKind, { label: string; description: string }> = {
+  duplicate: { label: 'Duplicates', description: 'The same Spotify track more than once' },
+  'likely-duplicate': { label: 'Likely duplicates', description: 'The same recording (ISRC) or the same song in a remaster, live or other version' },
+  unplayable: { label: 'Unplayable', description: 'Not available in your market' },
+  local: { label: 'Local files', description: 'Files from your device, which only play where they are stored' },
+  unavailable: { label: 'Unavailable', description: 'Removed from Spotify; remove these in the Spotify app' }
+};
+
+export interface HealthFinding {
+  kind: HealthIssueKind;
+  // Position of the item in the playlist
+  position: number;
+  name: string;
+  artist: string;
+  // URI the item is removed by; null for unavailable tracks, which the API can't remove
+  uri: string | null;
+  // The earlier item this one duplicates
+  duplicateOf?: { position: number; name: string; artist: string };
+  reason?: string;
+}
+
+export interface PlaylistHealth {
+  findings: HealthFinding[];
+  counts: Record<HealthIssueKind, number>;
+  // Items scanned, including unavailable ones
+  scanned: number;
+}
+
+// Version labels that don't make a different song
+const VERSION_WORDS = 'remaster(?:ed)?|live|mono|stereo|version|edit|deluxe|anniversary|bonus|demo|acoustic|re-?recorded';
+const VERSION_SUFFIX = new RegExp(`\\s+[-–]\\s+[^-–]*\\b(?:${VERSION_WORDS})\\b.*$`, 'i');
+const VERSION_BRACKETS = new RegExp(`\\s*[([][^)\\]]*\\b(?:${VERSION_WORDS})\\b[^)\\]]*[)\\]]`, 'gi');
+const FEATURING = /\s*[([]?\s*\b(?:feat\.?|ft\.?|featuring)\s.*$/i;
+
+// Track title without version labels, featured artists, accents or punctuation,
+// e.g. "Heroes - 2017 Remaster" and "Heroes (Live)" both become "heroes"
+export function normalizeTrackName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(VERSION_BRACKETS, '')
+    .replace(VERSION_SUFFIX, '')
+    .replace(FEATURING, '')
+    .toLowerCase()
+    .replace(/[\s!-\/:-@\[-`{-~\u2013\u2014\u2018-\u201f\u2026]+/g, ' ')
+    .trim();
+}
+
+function describe(track: any) {
+  return { name: track?.name || 'Unknown track', artist: track?.artists?.[0]?.name || 'Unknown artist' };
+}
+
+export function scanPlaylistHealth(items: any[]): PlaylistHealth {
+  const findings: HealthFinding[] = [];
+  const byId = new Map<string, number>();
+  const byIsrc = new Map<string, number>();
+  const byName = new Map<string, number>();
+
+  const firstSeen = (position: number) => ({ position, ...describe(items[position].track) });
+
+  items.forEach((item, position) => {
+    const track = item?.track;
+    if (!track) {
+      findings.push({ kind: 'unavailable', position, name: 'Unavailable track', artist: '', uri: null });
+      return;
+    }
+
+    const { name, artist } = describe(track);
+    // A relinked track is a regional copy; the playlist holds the `linked_from` track
+    const id: string | null = track.linked_from?.id ?? track.id;
+    const uri = track.linked_from?.uri ?? (track.uri || (id ? `spotify:track:${id}` : null));
+    if (item.is_local || track.is_local) {
+      findings.push({ kind: 'local', position, name, artist, uri });
+      return;
+    }
+
+    const isrc = track.external_ids?.isrc?.toUpperCase();
+    const nameKey = `${normalizeTrackName(name)}|${artist.toLowerCase()}`;
+
+    if (id && byId.has(id)) {
+      findings.push({ kind: 'duplicate', position, name, artist, uri, duplicateOf: firstSeen(byId.get(id)!) });
+    } else if (isrc && byIsrc.has(isrc)) {
+      findings.push({
+        kind: 'likely-duplicate', position, name, artist, uri,
+        duplicateOf: firstSeen(byIsrc.get(isrc)!),
+        reason: 'Same recording (ISRC)'
+      });
+    } else if (byName.has(nameKey)) {
+      findings.push({
+        kind: 'likely-duplicate', position, name, artist, uri,
+        duplicateOf: firstSeen(byName.get(nameKey)!),
+        reason: 'Same title and artist'
+      });
+    }
+
+    // The first occurrence is the one kept
+    if (id && !byId.has(id)) byId.set(id, position);
+    if (isrc && !byIsrc.has(isrc)) byIsrc.set(isrc, position);
+    if (!byName.has(nameKey)) byName.set(nameKey, position);
+
+    if (track.is_playable === false) {
+      findings.push({ kind: 'unplayable', position, name, artist, uri });
+    }
+  });
+
+  const counts: Record<HealthIssueKind, number> = { duplicate: 0, 'likely-duplicate': 0, unplayable: 0, local: 0, unavailable: 0 };
+  findings.forEach(finding => counts[finding.kind]++);
+
+  return { findings, counts, scanned: items.length };
+}
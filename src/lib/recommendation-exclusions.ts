@@ -0,0 +1,160 @@
+// Exclusion pipeline for recommendations.
+// Recommendations are for discovery, so tracks the user already knows (Liked
+// Songs, top tracks from any time range, or a playlist they pick) can be
+// filtered out. Callers over-fetch so `limit` fresh tracks are still left.
+
+export interface ExclusionOptions {
+  // Drop tracks in the user's Liked Songs
+  saved?: boolean;
+  // Drop tracks in the user's top tracks for the short, medium and long term
+  topTracks?: boolean;
+  // Drop tracks already in this playlist
+  playlistId?: string;
+}
+
+export type ExclusionReason = 'saved' | 'topTracks' | 'playlist';
+
+export interface ExclusionReport {
+  // Tracks asked for
+  requested: number;
+  // Distinct candidates checked, across every over-fetch round
+  fetched: number;
+  // Candidates dropped as already known
+  filtered: number;
+  // Each dropped track is counted under the first check it failed
+  byReason: Record<ExclusionReason, number>;
+}
+
+// Library access the filter needs, supplied by src/lib/spotify.ts
+export interface ExclusionApi {
+  checkSavedTracks(accessToken: string, trackIds: string[], signal?: AbortSignal): Promise<boolean[]>;
+  getTopTrackIds(accessToken: string, signal?: AbortSignal): Promise<string[]>;
+  getPlaylistTrackIds(accessToken: string, playlistId: string, signal?: AbortSignal): Promise<string[]>;
+}
+
+// Over-fetch factor for each round, capped by Spotify's 100-track limit
+const OVERFETCH_FACTORS = [2, 4];
+export const MAX_FETCH_LIMIT = 100;
+// Known-track lists are reused for a few minutes so slider changes don't refetch them
+const KNOWN_CACHE_MS = 5 * 60 * 1000;
+// /me/tracks/contains takes up to 50 IDs
+const CONTAINS_BATCH_SIZE = 50;
+// Saved-track checks kept per token; the oldest are dropped past this
+const MAX_SAVED_CHECKS = 2000;
+
+export function hasExclusions(options?: ExclusionOptions): boolean {
+  return !!options && (!!options.saved || !!options.topTracks || !!options.playlistId);
+}
+
+// Candidate counts to request, one per round, until enough fresh tracks are left
+export function exclusionFetchLimits(limit: number, options?: ExclusionOptions): number[] {
+  if (!hasExclusions(options)) return [limit];
+  const limits = OVERFETCH_FACTORS.map(factor => Math.min(MAX_FETCH_LIMIT, limit * factor));
+  return Array.from(new Set([...limits, MAX_FETCH_LIMIT]));
+}
+
+export function emptyExclusionReport(requested: number): ExclusionReport {
+  return { requested, fetched: 0, filtered: 0, byReason: { saved: 0, topTracks: 0, playlist: 0 } };
+}
+
+interface KnownIds {
+  ids: Set<string>;
+  expires: number;
+}
+
+interface SavedChecks {
+  // Track ID to whether it is in Liked Songs, oldest check first
+  saved: Map<string, boolean>;
+  expires: number;
+}
+
+export function createExclusionFilter(api: ExclusionApi) {
+  // Keyed by access token plus source; saved-track checks are cached per track ID
+  const knownCache = new Map<string, KnownIds>();
+  const savedCache = new Map<string, SavedChecks>();
+
+  async function getKnownIds(key: string, load: () => Promise<string[]>): Promise<Set<string>> {
+    const cached = knownCache.get(key);
+    if (cached && cached.expires > Date.now()) return cached.ids;
+
+    const ids = new Set(await load());
+    knownCache.set(key, { ids, expires: Date.now() + KNOWN_CACHE_MS });
+    return ids;
+  }
+
+  async function getSavedIds(accessToken: string, trackIds: string[], signal?: AbortSignal): Promise<Set<string>> {
+    // Checks expire like the known-track lists, which also drops those of refreshed tokens
+    const now = Date.now();
+    savedCache.forEach((entry, token) => {
+      if (entry.expires <= now) savedCache.delete(token);
+    });
+    const entry = savedCache.get(accessToken) || { saved: new Map<string, boolean>(), expires: now + KNOWN_CACHE_MS };
+    savedCache.set(accessToken, entry);
+    const known = entry.saved;
+
+    const checked = new Map<string, boolean>();
+    trackIds.forEach(id => {
+      if (known.has(id)) checked.set(id, known.get(id)!);
+    });
+    const unchecked = Array.from(new Set(trackIds.filter(id => !checked.has(id))));
+    for (let i = 0; i < unchecked.length; i += CONTAINS_BATCH_SIZE) {
+      const batch = unchecked.slice(i, i + CONTAINS_BATCH_SIZE);
+      const results = await api.checkSavedTracks(accessToken, batch, signal);
+      batch.forEach((id, index) => {
+        checked.set(id, !!results[index]);
+        known.set(id, !!results[index]);
+      });
+    }
+
+    Array.from(known.keys())
+      .slice(0, Math.max(0, known.size - MAX_SAVED_CHECKS))
+      .forEach(id => known.delete(id));
+    return new Set(trackIds.filter(id => checked.get(id)));
+  }
+
+  // Split tracks into fresh ones and the reason each known one was dropped.
+  // Tracks without an ID (local files) are kept; there's nothing to match them on.
+  async function filter<T extends { id: string | null }>(
+    accessToken: string,
+    tracks: T[],
+    options: ExclusionOptions,
+    signal?: AbortSignal
+  ): Promise<{ fresh: T[]; dropped: { track: T; reason: ExclusionReason }[] }> {
+    const checks: { reason: ExclusionReason; ids: Set<string> }[] = [];
+
+    if (options.topTracks) {
+      checks.push({
+        reason: 'topTracks',
+        ids: await getKnownIds(`${accessToken}:top`, () => api.getTopTrackIds(accessToken, signal))
+      });
+    }
+    if (options.playlistId) {
+      const playlistId = options.playlistId;
+      checks.push({
+        reason: 'playlist',
+        ids: await getKnownIds(`${accessToken}:playlist:${playlistId}`, () => api.getPlaylistTrackIds(accessToken, playlistId, signal))
+      });
+    }
+    if (options.saved) {
+      // Only ask Spotify about tracks the cheaper checks didn't already drop
+      const remaining = tracks
+        .map(track => track.id)
+        .filter((id): id is string => !!id && !checks.some(check => check.ids.has(id)));
+      checks.push({ reason: 'saved', ids: await getSavedIds(accessToken, remaining, signal) });
+    }
+
+    const fresh: T[] = [];
+    const dropped: { track: T; reason: ExclusionReason }[] = [];
+    tracks.forEach(track => {
+      const check = track.id ? checks.find(({ ids }) => ids.has(track.id!)) : undefined;
+      if (check) {
+        dropped.push({ track, reason: check.reason });
+      } else {
+        fresh.push(track);
+      }
+    });
+    return { fresh, dropped };
+  }
+
+  return { filter };
+}
@@ -0,0 +1,92 @@
+// Tunable track attributes for recommendations.
+// Spotify's /recommendations endpoint accepts min_*, max_* and target_* for each
+// of these; the local recommender applies the same limits to its own pool.
+
+export type TunableAttribute =
+  | 'energy'
+  | 'valence'
+  | 'danceability'
+  | 'tempo'
+  | 'acousticness'
+  | 'instrumentalness'
+  | 'popularity'
+  | 'duration_ms';
+
+export interface AttributeTuning {
+  min?: number;
+  max?: number;
+  target?: number;
+}
+
+export type RecommendationTuning = Partial<Record<TunableAttribute, AttributeTuning>>;
+
+export interface TunableAttributeInfo {
+  key: TunableAttribute;
+  label: string;
+  description: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const TUNABLE_ATTRIBUTES: TunableAttributeInfo[] = [
+  { key: 'energy', label: 'Energy', description: 'Intensity and activity', min: 0, max: 1, step: 0.05, format: percent },
+  { key: 'valence', label: 'Valence', description: 'Musical positivity', min: 0, max: 1, step: 0.05, format: percent },
+  { key: 'danceability', label: 'Danceability', description: 'How suitable for dancing', min: 0, max: 1, step: 0.05, format: percent },
+  { key: 'tempo', label: 'Tempo', description: 'Beats per minute', min: 40, max: 220, step: 5, format: value => `${Math.round(value)} BPM` },
+  { key: 'acousticness', label: 'Acousticness', description: 'Confidence the track is acoustic', min: 0, max: 1, step: 0.05, format: percent },
+  { key: 'instrumentalness', label: 'Instrumentalness', description: 'Likelihood of no vocals', min: 0, max: 1, step: 0.05, format: percent },
+  { key: 'popularity', label: 'Popularity', description: 'How popular on Spotify (0-100)', min: 0, max: 100, step: 1, format: value => String(Math.round(value)) },
+  {
+    key: 'duration_ms',
+    label: 'Duration',
+    description: 'Track length',
+    min: 30000,
+    max: 600000,
+    step: 15000,
+    format: value => {
+      const seconds = Math.round(value / 1000);
+      return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+    }
+  }
+];
+
+// Add min_/max_/target_ query parameters for every tuned attribute
+export function appendTuningParams(params: URLSearchParams, tuning: RecommendationTuning = {}) {
+  (Object.keys(tuning) as TunableAttribute[]).forEach(attribute => {
+    const values = tuning[attribute];
+    if (!values) return;
+    (['min', 'max', 'target'] as const).forEach(bound => {
+      const value = values[bound];
+      if (value === undefined || isNaN(value)) return;
+      // Popularity and duration must be integers
+      const formatted = attribute === 'popularity' || attribute === 'duration_ms' ? Math.round(value) : value;
+      params.set(`${bound}_${attribute}`, String(formatted));
+    });
+  });
+}
+
+// Whether a value is inside the tuned min/max range (targets don't exclude anything)
+export function withinTuning(attribute: TunableAttribute, value: number | undefined, tuning: RecommendationTuning = {}): boolean {
+  const values = tuning[attribute];
+  if (!values || value === undefined) return true;
+  if (values.min !== undefined && value < values.min) return false;
+  if (values.max !== undefined && value > values.max) return false;
+  return true;
+}
+
+// Distance from the tuned targets, each scaled to 0-1 by the attribute's range
+export function tuningTargetDistance(
+  values: Partial<Record<TunableAttribute, number>>,
+  tuning: RecommendationTuning = {}
+): number {
+  return TUNABLE_ATTRIBUTES.reduce((sum, info) => {
+    const target = tuning[info.key]?.target;
+    const value = values[info.key];
+    if (target === undefined || value === undefined) return sum;
+    return sum + Math.abs(value - target) / (info.max - info.min);
+  }, 0);
+}
@@ -0,0 +1,96 @@
+// Seed planner for recommendations.
+// Spotify accepts at most 5 seeds in total across tracks, artists and genres.
+// The planner validates a mixed list of seeds, keeps the highest-priority ones
+// that fit the budget, and produces smaller fallback plans that drop one
+// lowest-priority seed at a time.
+
+export type SeedType = 'track' | 'artist' | 'genre';
+
+export interface Seed {
+  type: SeedType;
+  // Spotify ID for tracks and artists, genre seed name for genres
+  id: string;
+  // Higher goes first; seeds with equal priority keep their input order
+  priority?: number;
+  // Display name, for UIs
+  label?: string;
+}
+
+export type DroppedSeedReason = 'invalid' | 'duplicate' | 'unknown-genre' | 'over-budget';
+
+export interface SeedPlan {
+  // Seeds that fit the budget, highest priority first
+  seeds: Seed[];
+  dropped: { seed: Seed; reason: DroppedSeedReason }[];
+}
+
+export const MAX_SEEDS = 5;
+
+const SPOTIFY_ID_PATTERN = /^[0-9A-Za-z]{22}$/;
+const GENRE_SEED_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+export function isValidSpotifyId(id: string): boolean {
+  return SPOTIFY_ID_PATTERN.test(id);
+}
+
+export function isValidSeed(seed: Seed): boolean {
+  return seed.type === 'genre' ? GENRE_SEED_PATTERN.test(seed.id) : isValidSpotifyId(seed.id);
+}
+
+// Build seeds from plain ID lists, in the order tracks, artists, genres
+export function seedsFromLists(lists: { tracks?: string[]; artists?: string[]; genres?: string[] }): Seed[] {
+  return [
+    ...(lists.tracks || []).map(id => ({ type: 'track' as const, id })),
+    ...(lists.artists || []).map(id => ({ type: 'artist' as const, id })),
+    ...(lists.genres || []).map(id => ({ type: 'genre' as const, id }))
+  ];
+}
+
+// Validate, de-duplicate and rank seeds, then fit them into the seed budget.
+// Pass `availableGenres` to also reject genres Spotify doesn't offer as seeds.
+export function planSeeds(
+  seeds: Seed[],
+  options: { availableGenres?: string[]; maxSeeds?: number } = {}
+): SeedPlan {
+  const { availableGenres, maxSeeds = MAX_SEEDS } = options;
+  const dropped: SeedPlan['dropped'] = [];
+  const seen = new Set<string>();
+
+  const ranked = seeds
+    .map((seed, index) => ({ seed: { ...seed, id: seed.type === 'genre' ? seed.id.trim().toLowerCase() : seed.id.trim() }, index }))
+    .sort((a, b) => (b.seed.priority || 0) - (a.seed.priority || 0) || a.index - b.index)
+    .map(({ seed }) => seed);
+
+  const valid = ranked.filter(seed => {
+    if (!isValidSeed(seed)) {
+      dropped.push({ seed, reason: 'invalid' });
+      return false;
+    }
+    if (seed.type === 'genre' && availableGenres && !availableGenres.includes(seed.id)) {
+      dropped.push({ seed, reason: 'unknown-genre' });
+      return false;
+    }
+    const key = `${seed.type}:${seed.id}`;
+    if (seen.has(key)) {
+      dropped.push({ seed, reason: 'duplicate' });
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  valid.slice(maxSeeds).forEach(seed => dropped.push({ seed, reason: 'over-budget' }));
+  return { seeds: valid.slice(0, maxSeeds), dropped };
+}
+
+// The planned seeds followed by ever smaller versions of them, each without
+// the lowest-priority seed left, down to the single most important one
+export function degradeSeeds(seeds: Seed[]): Seed[][] {
+  return seeds.map((_, index) => seeds.slice(0, seeds.length - index));
+}
+
+// Split seeds into the ID lists the recommendations endpoint takes
+export function seedLists(seeds: Seed[]) {
+  const idsOf = (type: SeedType) => seeds.filter(seed => seed.type === type).map(seed => seed.id);
+  return { tracks: idsOf('track'), artists: idsOf('artist'), genres: idsOf('genre') };
+}
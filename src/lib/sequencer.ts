@@ -0,0 +1,213 @@
+// DJ-style playlist sequencer.
+// Adjacent tracks are scored on Camelot-wheel key compatibility, tempo
+// difference and how well the next track follows a target energy curve; the
+// sequencer then searches for an order with smooth transitions throughout.
+
+import { AudioFeatures } from './audio-features';
+
+export type EnergyCurve = 'build-up' | 'peak' | 'wind-down';
+
+export const ENERGY_CURVES: Record<EnergyCurve, { label: string; description: string }> = {
+  'build-up': { label: 'Build-up', description: 'Start calm and finish at full energy' },
+  peak: { label: 'Peak in the middle', description: 'Rise to a peak halfway, then come back down' },
+  'wind-down': { label: 'Wind-down', description: 'Start at full energy and finish calm' }
+};
+
+export interface SequencerTrack {
+  id: string;
+  name: string;
+  artist: string;
+  features: AudioFeatures;
+}
+
+export interface TransitionScore {
+  // Each 0-1, higher is smoother
+  key: number;
+  tempo: number;
+  energy: number;
+  total: number;
+}
+
+export interface SequenceScore {
+  // transitions[i] scores the move from track i to track i + 1
+  transitions: TransitionScore[];
+  // Average total, 0-1
+  average: number;
+}
+
+const WEIGHTS = { key: 0.4, tempo: 0.3, energy: 0.3 };
+// Tempo gap (in BPM) at which the tempo score reaches zero
+const TEMPO_TOLERANCE = 16;
+// Improvement passes after the greedy order; each pass tries every swap
+const MAX_PASSES = 3;
+
+export interface CamelotCode {
+  number: number;
+  letter: 'A' | 'B';
+}
+
+// Camelot wheel position for a Spotify key and mode, e.g. A minor = 8A, C major = 8B
+export function camelotCode(key: number, mode: number): CamelotCode | null {
+  if (!(key >= 0 && key <= 11)) return null;
+  // Steps round the circle of fifths, starting from C
+  const fifths = (key * 7) % 12;
+  return mode === 1
+    ? { number: ((fifths + 7) % 12) + 1, letter: 'B' }
+    : { number: ((fifths + 4) % 12) + 1, letter: 'A' };
+}
+
+export function formatCamelot(code: CamelotCode | null): string {
+  return code ? `${code.number}${code.letter}` : '?';
+}
+
+// Same code mixes perfectly; neighbours on the wheel and the relative
+// major/minor mix well; two steps away works as an energy boost
+export function keyCompatibility(a: AudioFeatures, b: AudioFeatures): number {
+  const from = camelotCode(a.key, a.mode);
+  const to = camelotCode(b.key, b.mode);
+  if (!from || !to) return 0.5;
+
+  const steps = Math.min(Math.abs(from.number - to.number), 12 - Math.abs(from.number - to.number));
+  if (from.letter === to.letter) {
+    if (steps === 0) return 1;
+    if (steps === 1) return 0.85;
+    if (steps === 2) return 0.5;
+    return 0;
+  }
+  if (steps === 0) return 0.9;
+  if (steps === 1) return 0.6;
+  return 0;
+}
+
+// Half- and double-time count as matching tempos
+export function tempoCompatibility(a: AudioFeatures, b: AudioFeatures): number {
+  if (!a.tempo || !b.tempo) return 0.5;
+  const gap = Math.min(
+    Math.abs(a.tempo - b.tempo),
+    Math.abs(a.tempo * 2 - b.tempo),
+    Math.abs(a.tempo - b.tempo * 2)
+  );
+  return Math.max(0, 1 - gap / TEMPO_TOLERANCE);
+}
+
+// Target energy at each position, spread over the energy range of the tracks
+export function energyTargets(tracks: SequencerTrack[], curve: EnergyCurve): number[] {
+  const energies = tracks.map(track => track.features.energy);
+  const min = Math.min(...energies);
+  const max = Math.max(...energies);
+
+  return tracks.map((_, i) => {
+    const t = tracks.length > 1 ? i / (tracks.length - 1) : 0;
+    const shape = curve === 'build-up' ? t : curve === 'wind-down' ? 1 - t : 1 - Math.abs(2 * t - 1);
+    return min + (max - min) * shape;
+  });
+}
+
+function energyFit(track: SequencerTrack, target: number, range: number): number {
+  return Math.max(0, 1 - Math.abs(track.features.energy - target) / Math.max(range, 0.1));
+}
+
+export function scoreTransition(from: SequencerTrack, to: SequencerTrack, target: number, range: number): TransitionScore {
+  const key = keyCompatibility(from.features, to.features);
+  const tempo = tempoCompatibility(from.features, to.features);
+  const energy = energyFit(to, target, range);
+  return { key, tempo, energy, total: key * WEIGHTS.key + tempo * WEIGHTS.tempo + energy * WEIGHTS.energy };
+}
+
+function energyRange(tracks: SequencerTrack[]): number {
+  const energies = tracks.map(track => track.features.energy);
+  return Math.max(...energies) - Math.min(...energies);
+}
+
+// Score every adjacent pair of an order against the curve
+export function scoreSequence(tracks: SequencerTrack[], curve: EnergyCurve): SequenceScore {
+  if (tracks.length < 2) return { transitions: [], average: 0 };
+  const targets = energyTargets(tracks, curve);
+  const range = energyRange(tracks);
+  const transitions = tracks.slice(1).map((track, i) => scoreTransition(tracks[i], track, targets[i + 1], range));
+  return { transitions, average: transitions.reduce((sum, score) => sum + score.total, 0) / transitions.length };
+}
+
+// Reorder tracks for smooth transitions: a greedy pass picks the best next
+// track for each slot, then pairwise swaps are kept while they raise the total
+export function sequenceTracks<T extends SequencerTrack>(tracks: T[], curve: EnergyCurve): T[] {
+  if (tracks.length < 3) return [...tracks];
+
+  const targets = energyTargets(tracks, curve);
+  const range = energyRange(tracks);
+  const remaining = [...tracks];
+  const order: T[] = [];
+
+  // Open with the track closest to the curve's starting energy
+  remaining.sort((a, b) => Math.abs(a.features.energy - targets[0]) - Math.abs(b.features.energy - targets[0]));
+  order.push(remaining.shift()!);
+
+  while (remaining.length) {
+    const previous = order[order.length - 1];
+    const target = targets[order.length];
+    let bestIndex = 0;
+    let bestScore = -1;
+    remaining.forEach((track, i) => {
+      const score = scoreTransition(previous, track, target, range).total;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    });
+    order.push(remaining.splice(bestIndex, 1)[0]);
+  }
+
+  // Sum of the transitions into and out of the given positions
+  const localScore = (positions: number[]) => {
+    const edges = new Set<number>();
+    positions.forEach(position => {
+      if (position > 0) edges.add(position);
+      if (position < order.length - 1) edges.add(position + 1);
+    });
+    return Array.from(edges).reduce(
+      (sum, to) => sum + scoreTransition(order[to - 1], order[to], targets[to], range).total,
+      0
+    );
+  };
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let j = i + 1; j < order.length; j++) {
+        const before = localScore([i, j]);
+        [order[i], order[j]] = [order[j], order[i]];
+        if (localScore([i, j]) > before + 1e-9) {
+          improved = true;
+        } else {
+          [order[i], order[j]] = [order[j], order[i]];
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return order;
+}
+
+export interface ReorderMove {
+  // Position of the item to move, and the position it is inserted before,
+  // both in the playlist as it is when the move is made
+  rangeStart: number;
+  insertBefore: number;
+}
+
+// Single-item moves that turn the current playlist order into `order`, a list
+// of the current positions in their new order. Items already in place aren't moved.
+export function planReorderMoves(order: number[]): ReorderMove[] {
+  const current = order.map((_, i) => i);
+  const moves: ReorderMove[] = [];
+
+  order.forEach((position, target) => {
+    const from = current.indexOf(position);
+    if (from === target) return;
+    moves.push({ rangeStart: from, insertBefore: target });
+    current.splice(target, 0, current.splice(from, 1)[0]);
+  });
+
+  return moves;
+}
@@ -1,18 +1,92 @@
 import SpotifyWebApi from 'spotify-web-api-node';
+import {
+  AudioFeatureProvider,
+  AudioFeatureValues,
+  AudioFeatures,
+  FeatureLookupTrack,
+  countFeatureSources,
+  createDatasetFeatureProvider,
+  fallbackFeatureProvider,
+  resolveAudioFeatures
+} from './audio-features';
+import { CandidateTrack, LocalRecommendation, createLocalRecommender } from './local-recommender';
+import { RecommendationTuning, TunableAttribute, appendTuningParams } from './recommendation-tuning';
+import {
+  FeedbackRating,
+  NUDGED_ATTRIBUTES,
+  TrackFeedback,
+  TrackFeedbackInput,
+  feedbackTuning,
+  hasDislikedGenres,
+  rankWithFeedback
+} from './feedback';
+import { Seed, degradeSeeds, isValidSpotifyId, planSeeds, seedLists, seedsFromLists } from './seed-planner';
+import {
+  ExclusionOptions,
+  ExclusionReport,
+  createExclusionFilter,
+  emptyExclusionReport,
+  exclusionFetchLimits,
+  hasExclusions
+} from './recommendation-exclusions';
+import { distributionMetrics } from './diversity';
+import { ReorderMove, planReorderMoves } from './sequencer';
 
-// Request queue to limit concurrent requests
+export interface RequestQueueOptions {
+  maxConcurrent?: number;
+  // Optional token bucket: sustained requests per second...
+  requestsPerSecond?: number;
+  // ...and how many requests may go out back to back (defaults to requestsPerSecond)
+  burst?: number;
+}
+
+export interface RequestQueueStats {
+  queued: number;
+  running: number;
+  // Timestamp (ms) until which dispatch is paused after a 429, or null
+  pausedUntil: number | null;
+  totalRetries: number;
+}
+
+// Request queue to limit concurrent requests.
+// A rate-limited response pauses dispatch for the whole queue, and an
+// optional token bucket caps how many requests start per second.
 class RequestQueue {
   private queue: Array<() => Promise<any>> = [];
   private running = 0;
   private maxConcurrent: number;
+  private requestsPerSecond: number | null;
+  private burst: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+  private totalRetries = 0;
   
-  constructor(maxConcurrent = 3) {
-    this.maxConcurrent = maxConcurrent;
+  constructor(options: RequestQueueOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent ?? 3;
+    this.requestsPerSecond = options.requestsPerSecond && options.requestsPerSecond > 0
+      ? options.requestsPerSecond
+      : null;
+    this.burst = Math.max(1, options.burst ?? this.requestsPerSecond ?? 1);
+    this.tokens = this.burst;
   }
   
-  async add<T>(fn: () => Promise<T>): Promise<T> {
+  async add<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError(signal));
+        return;
+      }
+      
       const queuedFn = async () => {
+        signal?.removeEventListener('abort', onAbort);
+        // Drop jobs that were cancelled while they waited in the queue
+        if (signal?.aborted) {
+          reject(createAbortError(signal));
+          return;
+        }
+        
         try {
           this.running++;
           const result = await fn();
@@ -27,7 +101,16 @@ class RequestQueue {
         }
       };
       
+      // A job cancelled while it waits leaves the queue and rejects straight away,
+      // rather than holding its caller until a slot frees up
+      const onAbort = () => {
+        const index = this.queue.indexOf(queuedFn);
+        if (index !== -1) this.queue.splice(index, 1);
+        reject(createAbortError(signal!));
+      };
+      
       this.queue.push(queuedFn);
+      signal?.addEventListener('abort', onAbort, { once: true });
       
       if (this.running < this.maxConcurrent) {
         this.processNext();
@@ -35,8 +118,63 @@ class RequestQueue {
     });
   }
   
+  // Stop dispatching new requests for `ms` milliseconds (e.g. after a 429 with Retry-After)
+  pause(ms: number) {
+    const until = Date.now() + ms;
+    if (until > this.pausedUntil) {
+      console.warn(`Pausing Spotify request queue for ${ms}ms`);
+      this.pausedUntil = until;
+    }
+  }
+  
+  recordRetry() {
+    this.totalRetries++;
+  }
+  
+  getStats(): RequestQueueStats {
+    return {
+      queued: this.queue.length,
+      running: this.running,
+      pausedUntil: this.pausedUntil > Date.now() ? this.pausedUntil : null,
+      totalRetries: this.totalRetries
+    };
+  }
+  
+  // Refill the token bucket and take a token if one is available
+  private takeToken(now: number): boolean {
+    if (this.requestsPerSecond === null) return true;
+    
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.burst, this.tokens + elapsed * this.requestsPerSecond);
+    this.lastRefill = now;
+    
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+  
+  private scheduleResume(ms: number) {
+    if (this.resumeTimer) return;
+    this.resumeTimer = setTimeout(() => {
+      this.resumeTimer = null;
+      this.processNext();
+    }, Math.max(0, ms));
+  }
+  
   private processNext() {
-    if (this.queue.length > 0 && this.running < this.maxConcurrent) {
+    while (this.queue.length > 0 && this.running < this.maxConcurrent) {
+      const now = Date.now();
+      
+      if (now < this.pausedUntil) {
+        this.scheduleResume(this.pausedUntil - now);
+        return;
+      }
+      
+      if (!this.takeToken(now)) {
+        this.scheduleResume(((1 - this.tokens) / this.requestsPerSecond!) * 1000);
+        return;
+      }
+      
       const nextFn = this.queue.shift();
       if (nextFn) {
         nextFn().catch(console.error);
@@ -45,8 +183,29 @@ class RequestQueue {
   }
 }
 
-// Create a global request queue
-const requestQueue = new RequestQueue(3); // Allow 3 concurrent requests
+// Base URLs of the Spotify Web API and accounts service. Point them at the
+// local mock server (see README) to run the app without a Spotify account.
+export const SPOTIFY_API_BASE_URL =
+  process.env.NEXT_PUBLIC_SPOTIFY_API_BASE_URL || 'https://api.spotify.com/v1';
+export const SPOTIFY_ACCOUNTS_BASE_URL =
+  process.env.NEXT_PUBLIC_SPOTIFY_ACCOUNTS_BASE_URL || 'https://accounts.spotify.com';
+
+// Demo mode signs in as a fixture user and answers every API call from the
+// bundled mock dataset, so the app can be shown without a Spotify account
+export const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+export const DEMO_USER_ID = process.env.NEXT_PUBLIC_DEMO_USER || 'alex';
+
+// Create a global request queue.
+// Allow 3 concurrent requests; NEXT_PUBLIC_SPOTIFY_MAX_RPS optionally caps requests per second.
+const requestQueue = new RequestQueue({
+  maxConcurrent: 3,
+  requestsPerSecond: Number(process.env.NEXT_PUBLIC_SPOTIFY_MAX_RPS) || undefined
+});
+
+// Snapshot of the global request queue, for debugging rate limits
+export function getRequestQueueStats(): RequestQueueStats {
+  return requestQueue.getStats();
+}
 
 export const spotifyApi = new SpotifyWebApi({
   clientId: process.env.SPOTIFY_CLIENT_ID,
@@ -74,14 +233,7 @@ export interface TrackAnalysis {
   artist: string;
   popularity: number;
   genres: string[];
-  features: {
-    danceability: number;
-    energy: number;
-    valence: number;
-    tempo: number;
-    acousticness: number;
-    instrumentalness: number;
-  };
+  features: AudioFeatureValues;
 }
 
 // Helper function to chunk array into smaller arrays
@@ -94,406 +246,1212 @@ function chunkArray<T>(array: T[], size: number): T[][] {
 }
 
 // Helper function to add delay between API calls
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// The wait is cut short (and rejects) when the signal is aborted
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError(signal));
+    return;
+  }
+  
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError(signal!));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Helper function to build the error thrown when a request is cancelled
+function createAbortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new DOMException('The operation was aborted.', 'AbortError');
+}
+
+// Check whether an error comes from a cancelled request, so callers can ignore it
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+// fetch() for Spotify Web API URLs. Requests made with a demo session's token
+// never leave the page: they are answered in-process by the mock handler over
+// the bundled fixtures. Real Spotify sessions still work in demo mode.
+export async function fetchSpotifyApi(url: string, init: RequestInit = {}): Promise<Response> {
+  const authorization = new Headers(init.headers).get('Authorization');
+  const accessToken = authorization ? authorization.replace(/^Bearer\s+/i, '') : null;
+
+  if (!DEMO_MODE || !accessToken?.startsWith('mock.')) {
+    return fetch(url, init);
+  }
+
+  if (init.signal?.aborted) {
+    throw createAbortError(init.signal);
+  }
+
+  const { handleMockSpotifyRequest } = await import('./mock-spotify/handler');
+  const requestUrl = new URL(url);
+  const basePath = new URL(SPOTIFY_API_BASE_URL).pathname.replace(/\/$/, '');
+
+  let body: unknown;
+  if (typeof init.body === 'string') {
+    try {
+      body = JSON.parse(init.body);
+    } catch {
+      body = init.body;
+    }
+  }
+
+  const result = handleMockSpotifyRequest({
+    method: init.method || 'GET',
+    path: requestUrl.pathname.slice(basePath.length),
+    searchParams: requestUrl.searchParams,
+    accessToken,
+    body,
+    baseUrl: SPOTIFY_API_BASE_URL
+  });
+
+  return new Response(result.status === 204 ? null : JSON.stringify(result.body), {
+    status: result.status,
+    headers: { 'Content-Type': 'application/json', ...result.headers }
+  });
+}
+
+// Shape of the JSON error bodies Spotify returns. The Web API wraps errors in
+// { error: { status, message, reason } }, the accounts service uses
+// { error, error_description }.
+export interface SpotifyErrorBody {
+  error?: { status?: number; message?: string; reason?: string } | string;
+  error_description?: string;
+}
+
+// Error thrown by every Spotify call in this module when a response is not ok
+export class SpotifyApiError extends Error {
+  readonly status: number;
+  readonly endpoint: string;
+  // Seconds to wait before retrying, from the Retry-After header
+  readonly retryAfter: number | null;
+  readonly body: SpotifyErrorBody | string | null;
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    options: {
+      status: number;
+      endpoint: string;
+      retryAfter?: number | null;
+      body?: SpotifyErrorBody | string | null;
+      retryable?: boolean;
+    }
+  ) {
+    super(message);
+    this.name = 'SpotifyApiError';
+    this.status = options.status;
+    this.endpoint = options.endpoint;
+    this.retryAfter = options.retryAfter ?? null;
+    this.body = options.body ?? null;
+    this.retryable = options.retryable ?? (options.status === 429 || options.status >= 500);
+  }
+
+  // Same field name as spotify-web-api-node's errors
+  get statusCode(): number {
+    return this.status;
+  }
+
+  static async fromResponse(response: Response, url: string): Promise<SpotifyApiError> {
+    let endpoint = url;
+    try {
+      endpoint = new URL(url).pathname;
+    } catch {
+      // Keep the raw URL if it can't be parsed
+    }
+
+    const text = await response.text().catch(() => '');
+    let body: SpotifyErrorBody | string | null = text || null;
+    try {
+      body = text ? JSON.parse(text) : null;
+    } catch {
+      // Not JSON, keep the raw text
+    }
+
+    const retryAfterHeader = response.headers.get('retry-after');
+    const retryAfter = retryAfterHeader && !isNaN(Number(retryAfterHeader)) ? Number(retryAfterHeader) : null;
+
+    const spotifyMessage = body && typeof body === 'object'
+      ? (typeof body.error === 'object' ? body.error.message : body.error_description || body.error)
+      : null;
+    const message = `Spotify API error: ${response.status} ${spotifyMessage || response.statusText} (${endpoint})`;
+    const options = { status: response.status, endpoint, retryAfter, body };
+
+    switch (response.status) {
+      case 401:
+        return new SpotifyAuthError(message, options);
+      case 403:
+        return new SpotifyForbiddenError(message, options);
+      case 429:
+        return new SpotifyRateLimitError(message, options);
+      default:
+        return new SpotifyApiError(message, options);
+    }
+  }
+}
+
+// 401: the access token is missing, invalid or expired
+export class SpotifyAuthError extends SpotifyApiError {
+  constructor(message: string, options: ConstructorParameters<typeof SpotifyApiError>[1]) {
+    super(message, { ...options, retryable: false });
+    this.name = 'SpotifyAuthError';
+  }
+}
+
+// 403: the app or user is not allowed to use this endpoint (e.g. Development Mode)
+export class SpotifyForbiddenError extends SpotifyApiError {
+  constructor(message: string, options: ConstructorParameters<typeof SpotifyApiError>[1]) {
+    super(message, { ...options, retryable: false });
+    this.name = 'SpotifyForbiddenError';
+  }
+}
+
+// 429: too many requests, retry after `retryAfter` seconds
+export class SpotifyRateLimitError extends SpotifyApiError {
+  constructor(message: string, options: ConstructorParameters<typeof SpotifyApiError>[1]) {
+    super(message, { ...options, retryable: true });
+    this.name = 'SpotifyRateLimitError';
+  }
+}
+
+// Helper function to call the Spotify API and throw a SpotifyApiError when the response is not ok
+async function spotifyFetch<T = any>(accessToken: string, url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetchSpotifyApi(url, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      ...init.headers
+    }
+  });
+
+  if (!response.ok) {
+    const error = await SpotifyApiError.fromResponse(response, url);
+    console.error('Spotify API error:', {
+      endpoint: error.endpoint,
+      status: error.status,
+      message: error.message
+    });
+    throw error;
+  }
+
+  // Some write endpoints answer with an empty body
+  const text = await response.text();
+  return (text ? JSON.parse(text) : null) as T;
+}
 
 // Helper function to handle API calls with retries
 async function retryableSpotifyCall<T>(
   operation: () => Promise<T>,
-  maxRetries: number = 3,
-  initialDelayMs: number = 1000
+  options: {
+    maxRetries?: number;
+    initialDelayMs?: number;
+    // Only retry 429s, which Spotify never applied; for writes that aren't safe to repeat
+    rateLimitsOnly?: boolean;
+    signal?: AbortSignal;
+  } = {}
 ): Promise<T> {
+  const { maxRetries = 3, initialDelayMs = 1000, rateLimitsOnly = false, signal } = options;
   let lastError;
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
       return await operation();
     } catch (error: any) {
+      // Cancelled requests are never retried
+      if (isAbortError(error)) {
+        throw error;
+      }
+      
       lastError = error;
       console.error(`Attempt ${attempt} failed:`, {
-        statusCode: error?.statusCode,
+        status: error instanceof SpotifyApiError ? error.status : undefined,
+        endpoint: error instanceof SpotifyApiError ? error.endpoint : undefined,
         message: error?.message,
-        body: error?.body,
       });
       
-      // Don't retry auth errors
-      if (error?.statusCode === 401 || error?.statusCode === 403) {
-        console.error('Authorization error:', {
-          statusCode: error.statusCode,
-          message: error.message,
-          body: error.body
-        });
+      // Don't retry errors Spotify marks as permanent (auth, forbidden, bad request...)
+      // Anything that isn't a SpotifyApiError is a network failure and worth retrying
+      if (error instanceof SpotifyApiError && !error.retryable) {
+        throw error;
+      }
+
+      // A network error or 5xx may have come after the write went through
+      if (rateLimitsOnly && !(error instanceof SpotifyRateLimitError)) {
         throw error;
       }
       
-      // Handle rate limiting (429) specifically
-      if (error?.statusCode === 429) {
-        // Get retry-after header if available or use exponential backoff
-        const retryAfter = error?.headers?.['retry-after'] ? 
-          parseInt(error.headers['retry-after']) * 1000 : 
-          initialDelayMs * Math.pow(2, attempt - 1);
-        
-        console.warn(`Rate limited! Waiting ${retryAfter}ms before retry...`);
-        
-        if (attempt < maxRetries) {
-          await delay(retryAfter);
-          continue;
-        }
+      // Use the Retry-After header for rate limits, exponential backoff otherwise
+      const waitTime = error instanceof SpotifyApiError && error.retryAfter !== null
+        ? error.retryAfter * 1000
+        : initialDelayMs * Math.pow(2, attempt - 1);
+      
+      // A 429 applies to the whole app, so hold back every queued request too
+      if (error instanceof SpotifyRateLimitError) {
+        requestQueue.pause(waitTime);
       }
       
       if (attempt < maxRetries) {
-        // Exponential backoff
-        const waitTime = initialDelayMs * Math.pow(2, attempt - 1);
-        console.log(`Waiting ${waitTime}ms before retry...`);
-        await delay(waitTime);
+        if (error instanceof SpotifyRateLimitError) {
+          console.warn(`Rate limited! Waiting ${waitTime}ms before retry...`);
+        } else {
+          console.log(`Waiting ${waitTime}ms before retry...`);
+        }
+        requestQueue.recordRetry();
+        await delay(waitTime, signal);
       }
     }
   }
   
-  // If we've exhausted all retries, throw a more informative error
+  // If we've exhausted all retries, throw the last error
   if (lastError) {
-    if (lastError.statusCode === 429) {
-      throw new Error(`Rate limit exceeded. Too many requests to Spotify API. Please try again later.`);
-    } else {
-      throw lastError;
-    }
+    throw lastError;
   }
   
   throw new Error('Unknown error occurred during Spotify API call');
 }
 
-export async function getUserPlaylists(accessToken: string) {
-  console.log('Setting access token for playlists...');
-  
+export interface PaginateOptions {
+  // Stop after this many items, even if Spotify has more pages
+  maxItems?: number;
+  // Items requested per page (Spotify caps most endpoints at 50)
+  pageSize?: number;
+  signal?: AbortSignal;
+}
+
+// Helper function to fetch a single page of a paged Spotify endpoint
+async function fetchPage(accessToken: string, url: string, signal?: AbortSignal) {
   return requestQueue.add(() => 
+    retryableSpotifyCall(() => spotifyFetch(accessToken, url, { signal }), { signal }),
+    signal
+  );
+}
+
+// Async iterator over every item of a paged Spotify endpoint.
+// Follows the `next` links Spotify returns, one page at a time through the request queue.
+export async function* paginate<T = any>(
+  accessToken: string,
+  url: string,
+  options: PaginateOptions = {}
+): AsyncGenerator<T> {
+  const { maxItems, pageSize = 50, signal } = options;
+  if (maxItems !== undefined && maxItems <= 0) return;
+
+  const firstUrl = new URL(url);
+  if (!firstUrl.searchParams.has('limit')) {
+    const limit = maxItems !== undefined ? Math.min(pageSize, maxItems) : pageSize;
+    firstUrl.searchParams.set('limit', limit.toString());
+  }
+
+  let nextUrl: string | null = firstUrl.toString();
+  let count = 0;
+
+  while (nextUrl) {
+    const page: { items?: T[]; next?: string | null } = await fetchPage(accessToken, nextUrl, signal);
+
+    for (const item of page.items || []) {
+      yield item;
+      count++;
+      if (maxItems !== undefined && count >= maxItems) return;
+    }
+
+    nextUrl = page.next || null;
+  }
+}
+
+// Collect every item of a paged Spotify endpoint into an array
+export async function collectPages<T = any>(
+  accessToken: string,
+  url: string,
+  options: PaginateOptions = {}
+): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of paginate<T>(accessToken, url, options)) {
+    items.push(item);
+  }
+  return items;
+}
+
+export async function getUserPlaylists(accessToken: string, maxItems?: number, signal?: AbortSignal) {
+  console.log('Fetching user playlists...');
+  
+  const playlists = await collectPages(accessToken, `${SPOTIFY_API_BASE_URL}/me/playlists`, { maxItems, signal });
+  console.log(`Found ${playlists.length} playlists`);
+  return playlists;
+}
+
+// Function to get a playlist's details, including its current snapshot_id
+export async function getPlaylist(accessToken: string, playlistId: string, signal?: AbortSignal) {
+  return requestQueue.add(() =>
+    retryableSpotifyCall(() => spotifyFetch(accessToken, `${SPOTIFY_API_BASE_URL}/playlists/${playlistId}`, { signal }), { signal }),
+    signal
+  );
+}
+
+// Function to get the items (track, added_at, is_local) of a playlist
+export async function getPlaylistTracks(
+  accessToken: string,
+  playlistId: string,
+  maxItems?: number,
+  signal?: AbortSignal,
+  // "from_token" adds is_playable for the user's country
+  market?: string
+) {
+  console.log(`Fetching tracks for playlist ${playlistId}...`);
+  
+  const query = market ? `?market=${encodeURIComponent(market)}` : '';
+  const items = await collectPages(
+    accessToken,
+    `${SPOTIFY_API_BASE_URL}/playlists/${playlistId}/tracks${query}`,
+    { maxItems, pageSize: 100, signal }
+  );
+  console.log(`Found ${items.length} playlist items`);
+  return items;
+}
+
+// Function to get the signed-in user's profile
+export async function getCurrentUser(accessToken: string, signal?: AbortSignal): Promise<{ id: string; display_name: string | null }> {
+  return requestQueue.add(() =>
+    retryableSpotifyCall(() => spotifyFetch(accessToken, `${SPOTIFY_API_BASE_URL}/me`, { signal }), { signal }),
+    signal
+  );
+}
+
+export interface CreatePlaylistOptions {
+  name: string;
+  description?: string;
+  // Defaults to a private playlist
+  public?: boolean;
+  signal?: AbortSignal;
+}
+
+// Function to create an empty playlist owned by the signed-in user
+export async function createPlaylist(accessToken: string, options: CreatePlaylistOptions) {
+  const { name, description = '', public: isPublic = false, signal } = options;
+  const user = await getCurrentUser(accessToken, signal);
+  
+  // A retried create could leave a duplicate playlist behind, so only retry rate limits
+  return requestQueue.add(() =>
     retryableSpotifyCall(async () => {
-      console.log('Fetching user playlists...');
+      console.log(`Creating playlist "${name}"...`);
       
-      // Use direct fetch instead of Spotify API library
-      const response = await fetch('https://api.spotify.com/v1/me/playlists', {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json'
-        }
+      return spotifyFetch(accessToken, `${SPOTIFY_API_BASE_URL}/users/${encodeURIComponent(user.id)}/playlists`, {
+        method: 'POST',
+        body: JSON.stringify({ name, description, public: isPublic }),
+        signal
       });
-      
-      if (!response.ok) {
-        console.error('Error fetching user playlists:', {
-          status: response.status,
-          statusText: response.statusText
-        });
-        throw new Error(`Spotify API error: ${response.status} ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      return data.items;
-    })
+    }, { rateLimitsOnly: true, signal }),
+    signal
   );
 }
 
-export async function getTopTracks(accessToken: string, timeRange: 'short_term' | 'medium_term' | 'long_term' = 'medium_term') {
-  console.log('Setting access token for top tracks...');
-  
-  return requestQueue.add(() => 
+// Function to append tracks to a playlist, in batches of 100 URIs per request.
+// `onProgress` reports how many URIs are in, so a failed add can resume from there.
+// Returns the playlist's snapshot_id after the last batch.
+export async function addTracksToPlaylist(
+  accessToken: string,
+  playlistId: string,
+  uris: string[],
+  signal?: AbortSignal,
+  onProgress?: (added: number, total: number) => void
+): Promise<string | null> {
+  const chunks = chunkArray(uris, 100);
+  let snapshotId: string | null = null;
+  let added = 0;
+
+  for (const chunk of chunks) {
+    // A retried add that already went through would add the tracks twice, so only retry rate limits
+    const data = await requestQueue.add(() =>
+      retryableSpotifyCall(async () => {
+        console.log(`Adding ${chunk.length} tracks to playlist ${playlistId}...`);
+
+        return spotifyFetch(accessToken, `${SPOTIFY_API_BASE_URL}/playlists/${playlistId}/tracks`, {
+          method: 'POST',
+          body: JSON.stringify({ uris: chunk }),
+          signal
+        });
+      }, { rateLimitsOnly: true, signal }),
+      signal
+    );
+    snapshotId = data?.snapshot_id ?? snapshotId;
+    added += chunk.length;
+    onProgress?.(added, uris.length);
+  }
+
+  return snapshotId;
+}
+
+// Function to move one playlist item so it sits before `insertBefore`.
+// Returns the playlist's new snapshot_id.
+export async function reorderPlaylistTracks(
+  accessToken: string,
+  playlistId: string,
+  move: ReorderMove,
+  snapshotId?: string | null,
+  signal?: AbortSignal
+): Promise<string | null> {
+  // A retried move that already went through would move a second item, so only retry rate limits
+  const data = await requestQueue.add(() =>
     retryableSpotifyCall(async () => {
-      console.log('Fetching top tracks...');
-      
-      // Use direct fetch instead of Spotify API library
-      const response = await fetch(`https://api.spotify.com/v1/me/top/tracks?time_range=${timeRange}&limit=50`, {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json'
-        }
+      console.log(`Moving playlist item ${move.rangeStart} before ${move.insertBefore}...`);
+
+      return spotifyFetch(accessToken, `${SPOTIFY_API_BASE_URL}/playlists/${playlistId}/tracks`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          range_start: move.rangeStart,
+          insert_before: move.insertBefore,
+          range_length: 1,
+          ...(snapshotId ? { snapshot_id: snapshotId } : {})
+        }),
+        signal
       });
-      
-      if (!response.ok) {
-        console.error('Error fetching top tracks:', {
-          status: response.status,
-          statusText: response.statusText
+    }, { rateLimitsOnly: true, signal }),
+    signal
+  );
+  return data?.snapshot_id ?? null;
+}
+
+// Function to put a playlist's items in a new order, given as their current
+// positions. Moves one item at a time, each against the snapshot the previous
+// move returned, so added dates and local files are kept. Returns the last snapshot_id.
+export async function applyPlaylistOrder(
+  accessToken: string,
+  playlistId: string,
+  order: number[],
+  snapshotId?: string | null,
+  signal?: AbortSignal,
+  onProgress?: (done: number, total: number) => void
+): Promise<string | null> {
+  const moves = planReorderMoves(order);
+  let snapshot = snapshotId ?? null;
+
+  for (let i = 0; i < moves.length; i++) {
+    snapshot = (await reorderPlaylistTracks(accessToken, playlistId, moves[i], snapshot, signal)) ?? snapshot;
+    onProgress?.(i + 1, moves.length);
+  }
+
+  return snapshot;
+}
+
+export interface PlaylistItemRef {
+  uri: string;
+  position: number;
+}
+
+// Function to remove playlist items by URI and position, so only the chosen
+// copy of a duplicated track goes. Batches of 100 are sent from the end of the
+// playlist backwards, so earlier positions don't shift between requests.
+// `onProgress` reports how many items are gone, so a failed batch can be told apart
+// from one that changed nothing. Returns the playlist's snapshot_id after the last batch.
+export async function removePlaylistItems(
+  accessToken: string,
+  playlistId: string,
+  items: PlaylistItemRef[],
+  snapshotId?: string | null,
+  signal?: AbortSignal,
+  onProgress?: (removed: number, total: number) => void
+): Promise<string | null> {
+  const chunks = chunkArray([...items].sort((a, b) => b.position - a.position), 100);
+  let snapshot = snapshotId ?? null;
+  let removed = 0;
+
+  for (const chunk of chunks) {
+    const positionsByUri = new Map<string, number[]>();
+    chunk.forEach(item => positionsByUri.set(item.uri, [...(positionsByUri.get(item.uri) || []), item.position]));
+    const tracks = Array.from(positionsByUri.entries()).map(([uri, positions]) => ({ uri, positions }));
+
+    // A retried removal that already went through would fail on the old snapshot, so only retry rate limits
+    const data = await requestQueue.add(() =>
+      retryableSpotifyCall(async () => {
+        console.log(`Removing ${chunk.length} items from playlist ${playlistId}...`);
+
+        return spotifyFetch(accessToken, `${SPOTIFY_API_BASE_URL}/playlists/${playlistId}/tracks`, {
+          method: 'DELETE',
+          body: JSON.stringify({ tracks, ...(snapshot ? { snapshot_id: snapshot } : {}) }),
+          signal
         });
-        throw new Error(`Spotify API error: ${response.status} ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      console.log(`Found ${data.items.length} top tracks`);
-      return data.items;
-    })
+      }, { rateLimitsOnly: true, signal }),
+      signal
+    );
+    snapshot = data?.snapshot_id ?? snapshot;
+    removed += chunk.length;
+    onProgress?.(removed, items.length);
+  }
+
+  return snapshot;
+}
+
+// Function to move playlist items to another playlist. The tracks are added
+// to the target before they are removed, so a failed removal leaves copies
+// rather than losing them. `onProgress` reports how many are in the target and
+// gone from the source. Returns the source playlist's new snapshot_id.
+export async function movePlaylistItems(
+  accessToken: string,
+  fromPlaylistId: string,
+  toPlaylistId: string,
+  items: PlaylistItemRef[],
+  snapshotId?: string | null,
+  signal?: AbortSignal,
+  onProgress?: (added: number, removed: number, total: number) => void
+): Promise<string | null> {
+  const ordered = [...items].sort((a, b) => a.position - b.position);
+  await addTracksToPlaylist(accessToken, toPlaylistId, ordered.map(item => item.uri), signal, added =>
+    onProgress?.(added, 0, ordered.length)
+  );
+  return removePlaylistItems(accessToken, fromPlaylistId, ordered, snapshotId, signal, removed =>
+    onProgress?.(ordered.length, removed, ordered.length)
   );
 }
 
-export async function getTrackFeatures(accessToken: string, trackIds: string[]) {
-  if (!trackIds.length) return [];
+// Spotify track URIs for the tracks that can go in a playlist, without duplicates.
+// Local files and tracks without a real Spotify ID (fallback placeholders) are left out.
+export function playlistTrackUris(tracks: { id: string | null; uri?: string; is_local?: boolean }[]) {
+  const uris: string[] = [];
+  let skipped = 0;
+  
+  tracks.forEach(track => {
+    if (track.is_local || !track.id || !isValidSpotifyId(track.id)) {
+      skipped++;
+      return;
+    }
+    const uri = track.uri || `spotify:track:${track.id}`;
+    if (!uris.includes(uri)) uris.push(uri);
+  });
   
-  console.log('Setting access token for track features...');
+  return { uris, skipped };
+}
+
+// Function to get the user's Liked Songs (saved track objects with added_at)
+export async function getSavedTracks(accessToken: string, maxItems?: number, signal?: AbortSignal) {
+  console.log('Fetching saved tracks...');
   
-  // Check if we should use fallback features directly
-  // This is useful for development environments where the API might restrict access
-  const useFallbackFeatures = process.env.NEXT_PUBLIC_USE_FALLBACK_FEATURES === 'true';
-  if (useFallbackFeatures) {
-    console.log('Using fallback audio features as configured in environment');
-    return trackIds.map(() => ({
-      danceability: 0.5,
-      energy: 0.5,
-      valence: 0.5,
-      tempo: 120,
-      acousticness: 0.5,
-      instrumentalness: 0.5
-    }));
+  const items = await collectPages(accessToken, `${SPOTIFY_API_BASE_URL}/me/tracks`, { maxItems, signal });
+  console.log(`Found ${items.length} saved tracks`);
+  return items;
+}
+
+// Function to check which tracks are in the user's Liked Songs, in batches of 50 IDs per request
+export async function checkSavedTracks(accessToken: string, trackIds: string[], signal?: AbortSignal): Promise<boolean[]> {
+  const chunks = chunkArray(trackIds, 50);
+  let results: boolean[] = [];
+
+  for (const chunk of chunks) {
+    const saved: boolean[] = await requestQueue.add(() =>
+      retryableSpotifyCall(async () => {
+        console.log(`Checking ${chunk.length} tracks against saved tracks...`);
+
+        return spotifyFetch(accessToken, `${SPOTIFY_API_BASE_URL}/me/tracks/contains?ids=${chunk.join(',')}`, { signal });
+      }, { signal }),
+      signal
+    );
+
+    results = [...results, ...saved];
   }
+
+  return results;
+}
+
+export type TimeRange = 'short_term' | 'medium_term' | 'long_term';
+
+export interface SpotifyArtist {
+  id: string;
+  name: string;
+  genres: string[];
+  popularity: number;
+  followers: { total: number };
+  images: { url: string }[];
+  external_urls: { spotify: string };
+}
+
+export async function getTopTracks(
+  accessToken: string,
+  timeRange: TimeRange = 'medium_term',
+  limit: number = 50,
+  signal?: AbortSignal
+) {
+  console.log('Fetching top tracks...');
   
-  // Process in chunks to avoid API limits
-  const chunks = chunkArray(trackIds, 100);
-  let allFeatures: any[] = [];
-  let hasError = false;
+  const tracks = await collectPages(
+    accessToken,
+    `${SPOTIFY_API_BASE_URL}/me/top/tracks?time_range=${timeRange}`,
+    { maxItems: limit, signal }
+  );
+  console.log(`Found ${tracks.length} top tracks`);
+  return tracks;
+}
+
+export async function getTopArtists(
+  accessToken: string,
+  timeRange: TimeRange = 'medium_term',
+  limit: number = 20,
+  signal?: AbortSignal
+): Promise<SpotifyArtist[]> {
+  console.log('Fetching top artists...');
   
+  const artists = await collectPages<SpotifyArtist>(
+    accessToken,
+    `${SPOTIFY_API_BASE_URL}/me/top/artists?time_range=${timeRange}`,
+    { maxItems: limit, signal }
+  );
+  console.log(`Found ${artists.length} top artists`);
+  return artists;
+}
+
+export interface GenreCount {
+  name: string;
+  value: number;
+}
+
+// Label used for tracks whose artists have no genres on Spotify
+export const UNKNOWN_GENRE = 'Unknown genre';
+
+// Count how often each genre appears across a list of artists
+export function countArtistGenres(artists: SpotifyArtist[]): GenreCount[] {
+  const counts = new Map<string, number>();
+  artists.forEach(artist => {
+    (artist.genres || []).forEach(genre => counts.set(genre, (counts.get(genre) || 0) + 1));
+  });
+
+  return Array.from(counts.entries())
+    .map(([name, value]) => ({ name, value }))
+    .sort((a, b) => b.value - a.value);
+}
+
+// Function to get full artist objects (genres, followers, popularity) by ID
+export async function getArtists(
+  accessToken: string,
+  artistIds: string[],
+  signal?: AbortSignal
+): Promise<SpotifyArtist[]> {
+  const uniqueIds = Array.from(new Set(artistIds.filter(Boolean)));
+  if (!uniqueIds.length) return [];
+
+  // The artists endpoint accepts at most 50 IDs per request
+  const chunks = chunkArray(uniqueIds, 50);
+  let allArtists: SpotifyArtist[] = [];
+
   for (const chunk of chunks) {
-    try {
-      // First check if we can access the endpoint at all
-      const testResponse = await fetch('https://api.spotify.com/v1/audio-features?ids=' + chunk[0], {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      // If we get a 403 on the test request, don't even try the full request
-      if (testResponse.status === 403) {
-        console.warn('Audio features endpoint returned 403 Forbidden - using fallback values');
-        return trackIds.map(() => ({
-          danceability: 0.5,
-          energy: 0.5,
-          valence: 0.5,
-          tempo: 120,
-          acousticness: 0.5,
-          instrumentalness: 0.5
-        }));
-      }
+    const artists: (SpotifyArtist | null)[] = await requestQueue.add(() =>
+      retryableSpotifyCall(async () => {
+        console.log(`Fetching ${chunk.length} artists...`);
+
+        const data = await spotifyFetch(accessToken, `${SPOTIFY_API_BASE_URL}/artists?ids=${chunk.join(',')}`, { signal });
+        return data.artists;
+      }, { signal }),
+      signal
+    );
+
+    allArtists = [...allArtists, ...artists.filter((artist): artist is SpotifyArtist => artist !== null)];
+  }
+
+  return allArtists;
+}
+
+// Function to get full track objects, in batches of 50 IDs per request
+export async function getTracks(accessToken: string, trackIds: string[], signal?: AbortSignal) {
+  const uniqueIds = Array.from(new Set(trackIds.filter(Boolean)));
+  if (!uniqueIds.length) return [];
+
+  const chunks = chunkArray(uniqueIds, 50);
+  let allTracks: any[] = [];
+
+  for (const chunk of chunks) {
+    const tracks: any[] = await requestQueue.add(() =>
+      retryableSpotifyCall(async () => {
+        console.log(`Fetching ${chunk.length} tracks...`);
+
+        const data = await spotifyFetch(accessToken, `${SPOTIFY_API_BASE_URL}/tracks?ids=${chunk.join(',')}`, { signal });
+        return data.tracks;
+      }, { signal }),
+      signal
+    );
+
+    allTracks = [...allTracks, ...tracks.filter(track => track !== null)];
+  }
+
+  return allTracks;
+}
+
+// Function to get an artist's most popular tracks in the user's market
+export async function getArtistTopTracks(accessToken: string, artistId: string, signal?: AbortSignal) {
+  return requestQueue.add(() =>
+    retryableSpotifyCall(async () => {
+      console.log(`Fetching top tracks for artist ${artistId}...`);
+
+      const data = await spotifyFetch(accessToken, `${SPOTIFY_API_BASE_URL}/artists/${artistId}/top-tracks?market=from_token`, { signal });
+      return data.tracks || [];
+    }, { signal }),
+    signal
+  );
+}
+
+// Function to get the distinct genres of each track's artists, in track order.
+// Tracks without artist genres (or without artists) get an empty list.
+export async function getTrackGenres(
+  accessToken: string,
+  tracks: any[],
+  signal?: AbortSignal
+): Promise<string[][]> {
+  const artistIds = tracks.flatMap(track =>
+    Array.isArray(track?.artists) ? track.artists.map((artist: any) => artist.id).filter(Boolean) : []
+  );
+  const artists = await getArtists(accessToken, artistIds, signal);
+  const genresByArtist = new Map<string, string[]>(
+    artists.map(artist => [artist.id, artist.genres || []])
+  );
+
+  return tracks.map(track => {
+    const genres = new Set<string>();
+    (Array.isArray(track?.artists) ? track.artists : []).forEach((artist: any) => {
+      (genresByArtist.get(artist.id) || []).forEach(genre => genres.add(genre));
+    });
+    return Array.from(genres);
+  });
+}
+
+// Genre distribution from each track's genres. Each track carries a total
+// weight of 1, split evenly across its genres, so the values add up to the
+// number of tracks; tracks without genres count towards the unknown genre.
+export function distributeTrackGenres(trackGenres: string[][]): GenreCount[] {
+  const counts = new Map<string, number>();
+  for (const genres of trackGenres) {
+    if (genres.length === 0) {
+      counts.set(UNKNOWN_GENRE, (counts.get(UNKNOWN_GENRE) || 0) + 1);
+      continue;
+    }
+
+    genres.forEach(genre => {
+      counts.set(genre, (counts.get(genre) || 0) + 1 / genres.length);
+    });
+  }
+
+  return Array.from(counts.entries())
+    .map(([name, value]) => ({ name, value }))
+    .sort((a, b) => b.value - a.value);
+}
+
+// Function to get the genre distribution of a list of tracks
+export async function getGenreDistribution(
+  accessToken: string,
+  tracks: any[],
+  signal?: AbortSignal
+): Promise<GenreCount[]> {
+  const validTracks = tracks.filter(track => track && Array.isArray(track.artists));
+  if (!validTracks.length) return [];
+
+  return distributeTrackGenres(await getTrackGenres(accessToken, validTracks, signal));
+}
+
+// Audio feature provider backed by Spotify's /audio-features endpoint
+export const spotifyFeatureProvider: AudioFeatureProvider = {
+  source: 'spotify',
+  async getFeatures(accessToken, tracks, signal) {
+    const results: (AudioFeatures | null)[] = tracks.map(() => null);
+    
+    // Process in chunks to avoid API limits
+    const chunks = chunkArray(tracks.map(track => track.id), 100);
+    let offset = 0;
+    
+    for (const chunk of chunks) {
+      const chunkOffset = offset;
+      offset += chunk.length;
       
-      const features = await requestQueue.add(async () => 
-        retryableSpotifyCall(async () => {
-          console.log(`Fetching audio features for ${chunk.length} tracks...`);
-          
-          // Use direct fetch instead of Spotify API library
-          const response = await fetch(`https://api.spotify.com/v1/audio-features?ids=${chunk.join(',')}`, {
-            headers: {
-              'Authorization': `Bearer ${accessToken}`,
-              'Content-Type': 'application/json'
-            }
+      try {
+        // First check if we can access the endpoint at all.
+        // A 403 on the test request is handled below, without trying the full request.
+        await spotifyFetch(accessToken, `${SPOTIFY_API_BASE_URL}/audio-features?ids=${chunk[0]}`, { signal })
+          .catch(error => {
+            if (error instanceof SpotifyForbiddenError) throw error;
           });
-          
-          if (!response.ok) {
-            const errorText = await response.text().catch(() => 'No response body');
-            console.error('Error fetching audio features:', {
-              status: response.status,
-              statusText: response.statusText,
-              body: errorText
-            });
-            
-            // If we get a 403 error, throw a specific error
-            if (response.status === 403) {
-              throw new Error(`Spotify API error: 403 Forbidden - Access denied to audio features`);
-            }
+        
+        const features: any[] = await requestQueue.add(async () => 
+          retryableSpotifyCall(async () => {
+            console.log(`Fetching audio features for ${chunk.length} tracks...`);
             
-            throw new Error(`Spotify API error: ${response.status} ${response.statusText}`);
+            const data = await spotifyFetch(accessToken, `${SPOTIFY_API_BASE_URL}/audio-features?ids=${chunk.join(',')}`, { signal });
+            return data.audio_features;
+          }, { signal }),
+          signal
+        );
+        
+        features.forEach((feature, i) => {
+          if (feature) {
+            results[chunkOffset + i] = { ...feature, id: chunk[i], source: 'spotify' };
           }
-          
-          const data = await response.json();
-          return data.audio_features;
-        })
-      );
-      
-      allFeatures = [...allFeatures, ...features];
-      
-      // Add a small delay between chunk requests
-      if (chunks.length > 1) await delay(300);
-    } catch (error: any) {
-      console.error('Error fetching audio features:', error);
-      hasError = true;
-      
-      // If we get a 403 error, break the loop and return fallback features
-      if (
-        error.statusCode === 403 || 
-        (error.message && error.message.includes('403')) ||
-        (error.response && error.response.status === 403)
-      ) {
-        console.warn('Using fallback audio features due to API restrictions');
-        return trackIds.map(() => ({
-          danceability: 0.5,
-          energy: 0.5,
-          valence: 0.5,
-          tempo: 120,
-          acousticness: 0.5,
-          instrumentalness: 0.5
-        }));
+        });
+        
+        // Add a small delay between chunk requests
+        if (chunks.length > 1) await delay(300, signal);
+      } catch (error: any) {
+        if (isAbortError(error)) throw error;
+        
+        console.error('Error fetching audio features:', error);
+        
+        // If we get a 403 error, stop asking Spotify and let the next provider answer
+        if (error instanceof SpotifyForbiddenError) {
+          console.warn('Audio features endpoint is forbidden for this app');
+          return results;
+        }
       }
     }
+    
+    return results;
   }
+};
+
+// Created on first use so the dataset is only downloaded once
+let datasetFeatureProvider: AudioFeatureProvider | null = null;
+
+// Providers asked in order by getTrackFeatures, each filling the gaps of the previous one
+export function getDefaultFeatureProviders(): AudioFeatureProvider[] {
+  const providers: AudioFeatureProvider[] = [];
   
-  // If we had errors but still got some features, log a warning
-  if (hasError && allFeatures.length > 0) {
-    console.warn(`Retrieved ${allFeatures.length}/${trackIds.length} track features with some errors`);
+  // Skipping Spotify is useful for development environments where the API restricts access
+  if (process.env.NEXT_PUBLIC_USE_FALLBACK_FEATURES !== 'true') {
+    providers.push(spotifyFeatureProvider);
   }
   
-  // Return what we have or fallback if nothing
-  if (allFeatures.length === 0) {
-    console.warn('No track features retrieved, using fallback values');
-    return trackIds.map(() => ({
-      danceability: 0.5,
-      energy: 0.5,
-      valence: 0.5,
-      tempo: 120,
-      acousticness: 0.5,
-      instrumentalness: 0.5
-    }));
+  if (process.env.NEXT_PUBLIC_AUDIO_FEATURES_DATASET_URL) {
+    datasetFeatureProvider = datasetFeatureProvider
+      || createDatasetFeatureProvider(process.env.NEXT_PUBLIC_AUDIO_FEATURES_DATASET_URL);
+    providers.push(datasetFeatureProvider);
   }
   
-  return allFeatures;
+  providers.push(fallbackFeatureProvider);
+  return providers;
 }
 
-export async function getRecommendations(
+// Function to get audio features for tracks. Returns one feature set per
+// track, in order, each tagged with the provider it came from.
+export async function getTrackFeatures(
   accessToken: string,
-  seedTracks: string[],
-  targetPopularity: number,
-  limit: number = 20,
-  seedGenres: string[] = []
-) {
-  if (!accessToken) {
-    throw new Error('No access token provided');
+  tracks: FeatureLookupTrack[],
+  signal?: AbortSignal,
+  providers: AudioFeatureProvider[] = getDefaultFeatureProviders()
+): Promise<AudioFeatures[]> {
+  const lookupTracks = tracks.filter(track => track && track.id);
+  if (!lookupTracks.length) return [];
+  
+  const features = await resolveAudioFeatures(accessToken, lookupTracks, providers, signal);
+  
+  const sources = countFeatureSources(features);
+  if (sources.spotify < features.length) {
+    console.warn('Audio features were not all available from Spotify:', sources);
   }
+  
+  return features;
+}
 
-  console.log('Setting access token for recommendations...');
+// Local recommender over the user's own library, used when Spotify can't recommend
+const localRecommender = createLocalRecommender({
+  getTopArtists: (accessToken, limit, signal) => getTopArtists(accessToken, 'medium_term', limit, signal),
+  getArtistTopTracks,
+  getSavedTracks: async (accessToken, maxItems, signal) =>
+    (await getSavedTracks(accessToken, maxItems, signal)).map((item: any) => item.track),
+  getPlaylistTracks: async (accessToken, maxPlaylists, maxItems, signal) => {
+    const playlists = await getUserPlaylists(accessToken, maxPlaylists, signal);
+    const tracks: CandidateTrack[] = [];
+    for (const playlist of playlists) {
+      const items = await getPlaylistTracks(accessToken, playlist.id, maxItems, signal);
+      items.forEach((item: any) => item.track && tracks.push(item.track));
+    }
+    return tracks;
+  },
+  getTracks,
+  getArtists,
+  getTrackFeatures: (accessToken, tracks, signal) => getTrackFeatures(accessToken, tracks, signal)
+});
+
+// Function to get recommendations from the user's library, without Spotify's recommendations endpoint
+export async function getLocalRecommendations(
+  accessToken: string,
+  options: RecommendationOptions = {}
+): Promise<LocalRecommendation[]> {
+  const { seedTracks = [], seedArtists = [], seedGenres = [], limit = 20, tuning = {}, signal } = options;
+  return localRecommender.recommend(accessToken, { seedTracks, seedArtists, seedGenres, tuning, limit }, signal);
+}
+
+export interface RecommendationOptions {
+  // Mixed track/artist/genre seeds with priorities. When given, the seed lists below are ignored.
+  seeds?: Seed[];
+  seedTracks?: string[];
+  seedArtists?: string[];
+  seedGenres?: string[];
+  // Genre seeds Spotify accepts (from getAvailableGenres), to drop unknown genres up front
+  availableGenres?: string[];
+  // Number of tracks to return (1-100)
+  limit?: number;
+  // min/max/target values for tunable attributes, e.g. { energy: { min: 0.6 }, popularity: { target: 30 } }
+  tuning?: RecommendationTuning;
+  // The user's likes and dislikes, to nudge targets and re-rank the results
+  feedback?: TrackFeedback[];
+  signal?: AbortSignal;
+}
+
+// Helper function to call the recommendations endpoint with one combination of seeds
+async function fetchRecommendations(
+  accessToken: string,
+  seeds: Seed[],
+  limit: number,
+  tuning: RecommendationTuning,
+  signal?: AbortSignal
+) {
+  const { tracks, artists, genres } = seedLists(seeds);
+  const params = new URLSearchParams();
+  if (tracks.length) params.set('seed_tracks', tracks.join(','));
+  if (artists.length) params.set('seed_artists', artists.join(','));
+  if (genres.length) params.set('seed_genres', genres.join(','));
+  appendTuningParams(params, tuning);
+  params.set('limit', limit.toString());
   
-  // Check if we have seed tracks or genres
-  if (seedTracks.length === 0 && seedGenres.length === 0) {
-    console.log('No seed tracks or genres provided');
-    return createFallbackRecommendations(limit);
-  }
+  console.log('Recommendations options:', Object.fromEntries(params.entries()));
+  
+  return requestQueue.add(() =>
+    retryableSpotifyCall(async () => {
+      const data = await spotifyFetch(accessToken, `${SPOTIFY_API_BASE_URL}/recommendations?${params.toString()}`, { signal });
+      return data.tracks || [];
+    }, { signal }),
+    signal
+  );
+}
 
-  // Try with genre seeds first if available
-  if (seedGenres.length > 0) {
+// Function to re-rank recommendations with the user's feedback.
+// Artist genres are only fetched when the user has disliked genres.
+export async function rankRecommendations<T extends { id: string | null; artists: { id: string | null }[] }>(
+  accessToken: string,
+  tracks: T[],
+  feedback: TrackFeedback[],
+  signal?: AbortSignal
+): Promise<T[]> {
+  if (!feedback.length) return tracks;
+  
+  const genresByArtist = new Map<string, string[]>();
+  if (hasDislikedGenres(feedback)) {
     try {
-      console.log(`Trying recommendations with ${seedGenres.length} genre seeds:`, seedGenres);
-      
-      // Build query parameters
-      const params = new URLSearchParams();
-      seedGenres.slice(0, 5).forEach(genre => params.append('seed_genres', genre));
-      params.append('target_popularity', targetPopularity.toString());
-      params.append('limit', limit.toString());
-      
-      console.log('Genre recommendations options:', Object.fromEntries(params.entries()));
-      
-      // Use direct fetch instead of the Spotify API library
-      const response = await fetch(`https://api.spotify.com/v1/recommendations?${params.toString()}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Spotify API error: ${response.status} ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      console.log(`Found ${data.tracks.length} recommendations using genre seeds`);
-      return data.tracks;
+      const artistIds = tracks.flatMap(track => track.artists.map(artist => artist.id)).filter((id): id is string => !!id);
+      const artists = await getArtists(accessToken, Array.from(new Set(artistIds)), signal);
+      artists.forEach(artist => genresByArtist.set(artist.id, artist.genres || []));
     } catch (error) {
-      console.error('Error getting recommendations with genre seeds:', error);
-      // Fall back to track seeds if genre seeds fail
+      if (isAbortError(error)) throw error;
+      console.error('Error fetching artist genres for feedback ranking:', error);
     }
   }
+  
+  return rankWithFeedback(tracks, feedback, genresByArtist);
+}
 
-  // If we have track seeds, try those
-  if (seedTracks.length > 0) {
-    // Validate seed tracks to ensure they are valid Spotify IDs
-    const validTrackIdRegex = /^[0-9A-Za-z]{22}$/;
-    const validSeedTracks = seedTracks.filter(id => validTrackIdRegex.test(id));
-    
-    if (validSeedTracks.length === 0) {
-      console.log('No valid seed track IDs provided');
+// Function to build a feedback entry for a track, with its artists' genres and its
+// audio features so later rankings don't need to look them up again
+export async function describeTrackForFeedback(
+  accessToken: string,
+  track: FeatureLookupTrack & { name: string; artists: { id?: string | null; name: string }[] },
+  rating: FeedbackRating,
+  signal?: AbortSignal
+): Promise<TrackFeedbackInput> {
+  const artists = track.artists.map(artist => ({ id: artist.id ?? null, name: artist.name }));
+  const artistIds = artists.map(artist => artist.id).filter((id): id is string => !!id);
+  
+  const [artistDetails, [features]] = await Promise.all([
+    artistIds.length ? getArtists(accessToken, artistIds, signal) : Promise.resolve([]),
+    getTrackFeatures(accessToken, [track], signal)
+  ]);
+  
+  const featureValues: Partial<Record<TunableAttribute, number>> = {};
+  if (features && features.source !== 'fallback') {
+    NUDGED_ATTRIBUTES.forEach(key => {
+      featureValues[key] = features[key];
+    });
+  }
+  
+  return {
+    trackId: track.id,
+    rating,
+    name: track.name,
+    artists,
+    genres: Array.from(new Set(artistDetails.flatMap(artist => artist.genres || []))),
+    features: featureValues
+  };
+}
+
+// Function to get recommendations, re-ranked with the user's feedback when given
+export async function getRecommendations(accessToken: string, options: RecommendationOptions = {}) {
+  const { feedback = [], ...recommendationOptions } = options;
+  if (!feedback.length) {
+    return getPlannedRecommendations(accessToken, recommendationOptions);
+  }
+  
+  console.log(`Applying ${feedback.length} feedback entries to recommendations`);
+  const tracks = await getPlannedRecommendations(accessToken, {
+    ...recommendationOptions,
+    tuning: feedbackTuning(recommendationOptions.tuning || {}, feedback)
+  });
+  return rankRecommendations(accessToken, tracks, feedback, recommendationOptions.signal);
+}
+
+// Helper function to get recommendations for a seed plan, falling back to the local recommender
+async function getPlannedRecommendations(accessToken: string, options: RecommendationOptions = {}) {
+  if (!accessToken) {
+    throw new Error('No access token provided');
+  }
+
+  const { seedTracks = [], seedArtists = [], seedGenres = [], availableGenres, limit = 20, tuning = {}, signal } = options;
+  console.log('Setting access token for recommendations...');
+  
+  // Fit every seed into Spotify's 5-seed budget, highest priority first
+  const requestedSeeds = options.seeds || seedsFromLists({ tracks: seedTracks, artists: seedArtists, genres: seedGenres });
+  const plan = planSeeds(requestedSeeds, { availableGenres });
+  if (plan.dropped.length) {
+    console.log('Seeds left out of the plan:', plan.dropped.map(({ seed, reason }) => `${seed.type}:${seed.id} (${reason})`));
+  }
+  
+  // Check if we have any usable seeds
+  if (plan.seeds.length === 0) {
+    if (requestedSeeds.length > 0 && !requestedSeeds.some(seed => seed.type === 'genre')) {
+      console.log('No valid seeds provided');
       
       // Try to get available genres and use those instead
       try {
-        const genres = await getAvailableGenres(accessToken);
+        const genres = availableGenres || await getAvailableGenres(accessToken, signal);
         if (genres.length > 0) {
           const defaultGenres = genres.slice(0, 3);
           console.log(`Using default genres instead: ${defaultGenres.join(', ')}`);
           
           // Recursive call with genres
-          return getRecommendations(accessToken, [], targetPopularity, limit, defaultGenres);
+          return getPlannedRecommendations(accessToken, { seedGenres: defaultGenres, limit, tuning, signal });
         }
       } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error('Error getting available genres:', error);
       }
-      
-      return createFallbackRecommendations(limit);
     }
     
-    // Try different combinations of seed tracks
-    for (let i = Math.min(validSeedTracks.length, 5); i > 0; i--) {
-      const seeds = validSeedTracks.slice(0, i);
-      try {
-        console.log(`Trying recommendations with ${seeds.length} track seeds:`, seeds);
-        
-        // Build query parameters
-        const params = new URLSearchParams();
-        seeds.forEach(track => params.append('seed_tracks', track));
-        params.append('target_popularity', targetPopularity.toString());
-        params.append('limit', limit.toString());
-        
-        console.log('Track recommendations options:', Object.fromEntries(params.entries()));
-        
-        // Use direct fetch instead of the Spotify API library
-        const response = await fetch(`https://api.spotify.com/v1/recommendations?${params.toString()}`, {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json'
-          }
-        });
-        
-        if (!response.ok) {
-          throw new Error(`Spotify API error: ${response.status} ${response.statusText}`);
-        }
-        
-        const data = await response.json();
-        console.log(`Found ${data.tracks.length} recommendations using ${seeds.length} track seeds`);
-        return data.tracks;
-      } catch (error) {
-        console.error(`Error getting recommendations with ${seeds.length} track seeds:`, error);
-        // Try the next combination
+    console.log('No seeds to use, using the local recommender');
+    return getLocalRecommendations(accessToken, { limit, tuning, signal });
+  }
+
+  // Try the full plan, then drop the lowest-priority seed one at a time
+  for (const seeds of degradeSeeds(plan.seeds)) {
+    try {
+      console.log(`Trying recommendations with ${seeds.length} seeds:`, seeds.map(seed => `${seed.type}:${seed.id}`));
+      
+      const tracks = await fetchRecommendations(accessToken, seeds, limit, tuning, signal);
+      if (tracks.length > 0) {
+        console.log(`Found ${tracks.length} recommendations using ${seeds.length} seeds`);
+        return tracks;
+      }
+      console.log('No recommendations for these seeds, dropping the lowest-priority seed');
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error(`Error getting recommendations with ${seeds.length} seeds:`, error);
+      
+      // Fewer seeds won't help when the endpoint is blocked or the token is bad
+      if (error instanceof SpotifyAuthError || error instanceof SpotifyForbiddenError) {
+        break;
       }
     }
   }
   
-  // If all attempts fail, return fallback recommendations
-  console.log('All recommendation attempts failed, returning fallback recommendations');
-  return createFallbackRecommendations(limit);
+  // If all attempts fail, recommend from the user's own library instead
+  console.log('All recommendation attempts failed, using the local recommender');
+  const lists = seedLists(plan.seeds);
+  return getLocalRecommendations(accessToken, {
+    seedTracks: lists.tracks,
+    seedArtists: lists.artists,
+    seedGenres: lists.genres,
+    limit,
+    tuning,
+    signal
+  });
 }
 
-// Helper function to create fallback recommendations
-function createFallbackRecommendations(limit: number) {
-  console.log('Creating fallback recommendations');
-  return Array(limit).fill(null).map((_, index) => ({
-    id: `fallback-${index}`,
-    name: `Fallback Track ${index + 1}`,
-    artists: [{ name: 'Various Artists' }],
-    album: {
-      images: [{ url: '/placeholder.svg' }]
-    },
-    external_urls: {
-      spotify: 'https://open.spotify.com'
-    }
-  }));
+// Filter that drops tracks the user already knows, used by getFreshRecommendations
+const exclusionFilter = createExclusionFilter({
+  checkSavedTracks,
+  getTopTrackIds: async (accessToken, signal) => {
+    const ranges: TimeRange[] = ['short_term', 'medium_term', 'long_term'];
+    const perRange = await Promise.all(ranges.map(range => getTopTracks(accessToken, range, 50, signal)));
+    return perRange.flat().map((track: any) => track.id);
+  },
+  getPlaylistTrackIds: async (accessToken, playlistId, signal) =>
+    (await getPlaylistTracks(accessToken, playlistId, undefined, signal))
+      .map((item: any) => item.track?.id)
+      .filter(Boolean)
+});
+
+// Function to drop already-known tracks from a list and keep the first `limit` fresh ones
+export async function excludeKnownTracks<T extends { id: string | null }>(
+  accessToken: string,
+  tracks: T[],
+  exclude: ExclusionOptions,
+  limit: number,
+  signal?: AbortSignal
+): Promise<{ tracks: T[]; report: ExclusionReport }> {
+  const report = emptyExclusionReport(limit);
+  const { fresh, dropped } = await exclusionFilter.filter(accessToken, tracks, exclude, signal);
+
+  report.fetched = tracks.length;
+  report.filtered = dropped.length;
+  dropped.forEach(({ reason }) => report.byReason[reason]++);
+  return { tracks: fresh.slice(0, limit), report };
+}
+
+export interface FreshRecommendationOptions extends RecommendationOptions {
+  // Which already-known tracks to leave out
+  exclude?: ExclusionOptions;
+}
+
+// Function to get recommendations without tracks the user already knows.
+// Over-fetches in rounds until `limit` fresh tracks are left or Spotify's cap is reached.
+export async function getFreshRecommendations(
+  accessToken: string,
+  options: FreshRecommendationOptions = {}
+): Promise<{ tracks: any[]; report: ExclusionReport }> {
+  const { exclude, limit = 20, ...recommendationOptions } = options;
+  
+  if (!hasExclusions(exclude)) {
+    const tracks = await getRecommendations(accessToken, { ...recommendationOptions, limit });
+    return { tracks, report: { ...emptyExclusionReport(limit), fetched: tracks.length } };
+  }
+
+  const candidates = new Map<string, any>();
+  let result: { tracks: any[]; report: ExclusionReport } = { tracks: [], report: emptyExclusionReport(limit) };
+  
+  for (const fetchLimit of exclusionFetchLimits(limit, exclude)) {
+    console.log(`Over-fetching ${fetchLimit} recommendations to exclude known tracks...`);
+    
+    const tracks = await getRecommendations(accessToken, { ...recommendationOptions, limit: fetchLimit });
+    const before = candidates.size;
+    tracks.forEach((track: any) => {
+      if (track.id && !candidates.has(track.id)) candidates.set(track.id, track);
+    });
+    
+    result = await excludeKnownTracks(accessToken, Array.from(candidates.values()), exclude!, limit, recommendationOptions.signal);
+    console.log(`${result.report.filtered} of ${result.report.fetched} recommendations were already known`);
+    
+    // Stop when there are enough fresh tracks or a bigger request brought nothing new
+    if (result.tracks.length >= limit || candidates.size === before) break;
+  }
+  
+  return result;
 }
 
-export async function validateToken(accessToken: string) {
+export async function validateToken(accessToken: string, signal?: AbortSignal) {
   if (!accessToken) {
     return { valid: false, error: 'No token provided' };
   }
 
   try {
     // Try to get the current user's profile
-    const response = await fetch('https://api.spotify.com/v1/me', {
+    const response = await fetchSpotifyApi(`${SPOTIFY_API_BASE_URL}/me`, {
+      signal,
       headers: {
         'Authorization': `Bearer ${accessToken}`,
         'Content-Type': 'application/json'
@@ -514,15 +1472,16 @@ export async function validateToken(accessToken: string) {
 
     // Check scopes by trying to access a few endpoints
     const scopeChecks = [
-      { scope: 'user-top-read', endpoint: 'https://api.spotify.com/v1/me/top/tracks?limit=1' },
-      { scope: 'playlist-read-private', endpoint: 'https://api.spotify.com/v1/me/playlists?limit=1' },
-      { scope: 'user-read-recently-played', endpoint: 'https://api.spotify.com/v1/me/player/recently-played?limit=1' }
+      { scope: 'user-top-read', endpoint: `${SPOTIFY_API_BASE_URL}/me/top/tracks?limit=1` },
+      { scope: 'playlist-read-private', endpoint: `${SPOTIFY_API_BASE_URL}/me/playlists?limit=1` },
+      { scope: 'user-read-recently-played', endpoint: `${SPOTIFY_API_BASE_URL}/me/player/recently-played?limit=1` }
     ];
 
     const scopeResults = await Promise.all(
       scopeChecks.map(async (check) => {
         try {
-          const scopeResponse = await fetch(check.endpoint, {
+          const scopeResponse = await fetchSpotifyApi(check.endpoint, {
+            signal,
             headers: {
               'Authorization': `Bearer ${accessToken}`,
               'Content-Type': 'application/json'
@@ -535,6 +1494,7 @@ export async function validateToken(accessToken: string) {
             ok: scopeResponse.ok
           };
         } catch (error) {
+          if (isAbortError(error)) throw error;
           return {
             scope: check.scope,
             status: 'error',
@@ -551,6 +1511,7 @@ export async function validateToken(accessToken: string) {
       scopes: scopeResults
     };
   } catch (error) {
+    if (isAbortError(error)) throw error;
     return {
       valid: false,
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -563,17 +1524,241 @@ export function calculateObscurityScore(popularity: number): number {
   return Math.max(0, Math.min(100, 100 - popularity));
 }
 
+export type ObscurityComponentKey = 'trackPopularity' | 'artistPopularity' | 'followers';
+
+export interface ObscurityComponent {
+  key: ObscurityComponentKey;
+  label: string;
+  description: string;
+  // Share of the composite score (the weights of all components add up to 1)
+  weight: number;
+  // Rank-weighted obscurity for this component alone, 0-100
+  score: number;
+}
+
+export interface TrackObscurity {
+  name: string;
+  artist: string;
+  // Composite obscurity of the single track, 0-100
+  score: number;
+}
+
+export interface ObscurityBreakdown {
+  score: number;
+  components: ObscurityComponent[];
+  trackCount: number;
+  mostObscure: TrackObscurity | null;
+  mostMainstream: TrackObscurity | null;
+}
+
+const OBSCURITY_COMPONENTS: Omit<ObscurityComponent, 'score'>[] = [
+  { key: 'trackPopularity', label: 'Track popularity', description: 'How much the songs themselves are played', weight: 0.4 },
+  { key: 'artistPopularity', label: 'Artist popularity', description: 'How popular the artists are overall', weight: 0.35 },
+  { key: 'followers', label: 'Artist followers', description: 'Size of the artists\' following, on a log scale', weight: 0.25 }
+];
+
+// Follower counts span 0 to ~100M, so they are scored on a log scale:
+// 100 followers scores 75, 10k scores 50, 1M scores 25, 100M scores 0
+export function followerObscurity(followers: number): number {
+  return Math.max(0, Math.min(100, 100 - (Math.log10(Math.max(0, followers) + 1) / 8) * 100));
+}
+
+// A user's #1 track counts more than their #50: weight 1/sqrt(rank)
+export function obscurityRankWeight(index: number): number {
+  return 1 / Math.sqrt(index + 1);
+}
+
+// Obscurity of one track per component; artist components are missing when the artist is unknown
+function trackObscurityComponents(track: any, artist?: SpotifyArtist): Partial<Record<ObscurityComponentKey, number>> {
+  return {
+    trackPopularity: calculateObscurityScore(track.popularity ?? 50),
+    ...(artist
+      ? {
+          artistPopularity: calculateObscurityScore(artist.popularity ?? 50),
+          followers: followerObscurity(artist.followers?.total ?? 0)
+        }
+      : {})
+  };
+}
+
+// Weighted blend of the components a track has, re-normalising the weights of missing ones
+function blendObscurity(values: Partial<Record<ObscurityComponentKey, number>>): number {
+  let total = 0;
+  let weights = 0;
+  OBSCURITY_COMPONENTS.forEach(({ key, weight }) => {
+    const value = values[key];
+    if (value === undefined) return;
+    total += value * weight;
+    weights += weight;
+  });
+  return weights ? total / weights : 50;
+}
+
+// Composite obscurity of a ranked track list (e.g. top tracks, #1 first). Blends
+// track popularity, artist popularity and log-scaled followers of each track's
+// main artist, weighting each track by its rank.
+export function calculateCompositeObscurity(tracks: any[], artistsById: Map<string, SpotifyArtist>): ObscurityBreakdown {
+  const rated = tracks
+    .filter(track => track)
+    .map((track, index) => {
+      const artist = artistsById.get(track.artists?.[0]?.id);
+      const values = trackObscurityComponents(track, artist);
+      return {
+        track: { name: track.name, artist: track.artists?.[0]?.name || 'Unknown artist', score: Math.round(blendObscurity(values)) },
+        values,
+        weight: obscurityRankWeight(index)
+      };
+    });
+
+  // Components no track has data for (e.g. artists couldn't be fetched) are left out
+  const components = OBSCURITY_COMPONENTS
+    .map(component => {
+      const withValue = rated.filter(item => item.values[component.key] !== undefined);
+      const weights = withValue.reduce((sum, item) => sum + item.weight, 0);
+      if (!weights) return null;
+      const score = withValue.reduce((sum, item) => sum + item.values[component.key]! * item.weight, 0) / weights;
+      return { ...component, score: Math.round(score) };
+    })
+    .filter((component): component is ObscurityComponent => component !== null);
+
+  const weights = rated.reduce((sum, item) => sum + item.weight, 0);
+  const score = weights ? rated.reduce((sum, item) => sum + item.track.score * item.weight, 0) / weights : 0;
+  const byScore = [...rated].sort((a, b) => b.track.score - a.track.score);
+
+  return {
+    score: Math.round(score),
+    components,
+    trackCount: rated.length,
+    mostObscure: byScore[0]?.track || null,
+    mostMainstream: byScore[byScore.length - 1]?.track || null
+  };
+}
+
+// Function to get the composite obscurity of a ranked track list, fetching the main artists
+export async function getObscurityBreakdown(accessToken: string, tracks: any[], signal?: AbortSignal): Promise<ObscurityBreakdown> {
+  const artistIds = tracks.map(track => track?.artists?.[0]?.id).filter(Boolean);
+  const artists = await getArtists(accessToken, artistIds, signal);
+  return calculateCompositeObscurity(tracks, new Map(artists.map(artist => [artist.id, artist])));
+}
+
+// Function to score how evenly a list of genres (one entry per occurrence) is spread, 0-100
 export function calculateDiversityScore(genres: string[]): number {
-  const uniqueGenres = new Set(genres);
-  return Math.min((uniqueGenres.size / 20) * 100, 100);
+  const counts = new Map<string, number>();
+  genres.forEach(genre => counts.set(genre, (counts.get(genre) || 0) + 1));
+  return Math.round(distributionMetrics(Array.from(counts.values())).evenness * 100);
 }
 
 export function calculateMoodScore(valence: number, energy: number): number {
   return Math.max(0, Math.min(100, ((valence + energy) / 2) * 100));
 }
 
+export interface ReleasedTrack {
+  name: string;
+  artist: string;
+  releaseDate: string;
+  year: number;
+}
+
+export interface ReleaseDateSummary {
+  decadeDistribution: { name: string; value: number }[];
+  yearDistribution: { name: string; value: number }[];
+  medianYear: number | null;
+  oldestTrack: ReleasedTrack | null;
+  newestTrack: ReleasedTrack | null;
+  datedTracks: number;
+  undatedTracks: number;
+}
+
+// Parse an album release date into a sortable value.
+// Spotify sends "1981", "1981-12" or "1981-12-15" depending on
+// release_date_precision; missing months and days default to the first.
+export function parseReleaseDate(
+  releaseDate?: string | null,
+  precision?: 'year' | 'month' | 'day' | null
+): { year: number; sortKey: number } | null {
+  if (!releaseDate) return null;
+
+  const [yearPart, monthPart, dayPart] = releaseDate.split('-');
+  const year = parseInt(yearPart, 10);
+  // Some tracks carry a "0000" placeholder date
+  if (!year || isNaN(year)) return null;
+
+  const month = precision !== 'year' && monthPart ? parseInt(monthPart, 10) || 1 : 1;
+  const day = precision === 'day' && dayPart ? parseInt(dayPart, 10) || 1 : 1;
+
+  return { year, sortKey: year * 10000 + month * 100 + day };
+}
+
+// Summarize the release dates of a list of tracks (decades, years, median, range).
+// Local files and tracks without a usable release date are counted as undated.
+export function calculateReleaseDateSummary(tracks: any[]): ReleaseDateSummary {
+  const dated: (ReleasedTrack & { sortKey: number })[] = [];
+  let undatedTracks = 0;
+
+  tracks.forEach(track => {
+    const parsed = track && !track.is_local
+      ? parseReleaseDate(track.album?.release_date, track.album?.release_date_precision)
+      : null;
+
+    if (!parsed) {
+      undatedTracks++;
+      return;
+    }
+
+    dated.push({
+      name: track.name,
+      artist: track.artists?.map((artist: any) => artist.name).join(', ') || 'Unknown artist',
+      releaseDate: track.album.release_date,
+      year: parsed.year,
+      sortKey: parsed.sortKey
+    });
+  });
+
+  if (!dated.length) {
+    return {
+      decadeDistribution: [],
+      yearDistribution: [],
+      medianYear: null,
+      oldestTrack: null,
+      newestTrack: null,
+      datedTracks: 0,
+      undatedTracks
+    };
+  }
+
+  const countBy = (keyOf: (track: ReleasedTrack) => number) => {
+    const counts = new Map<number, number>();
+    dated.forEach(track => counts.set(keyOf(track), (counts.get(keyOf(track)) || 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => a[0] - b[0]);
+  };
+
+  const decadeDistribution = countBy(track => Math.floor(track.year / 10) * 10)
+    .map(([decade, value]) => ({ name: `${decade}s`, value }));
+  const yearDistribution = countBy(track => track.year)
+    .map(([year, value]) => ({ name: year.toString(), value }));
+
+  const years = dated.map(track => track.year).sort((a, b) => a - b);
+  const middle = Math.floor(years.length / 2);
+  const medianYear = years.length % 2 === 0
+    ? Math.round((years[middle - 1] + years[middle]) / 2)
+    : years[middle];
+
+  const byDate = [...dated].sort((a, b) => a.sortKey - b.sortKey);
+  const toReleasedTrack = ({ sortKey, ...track }: ReleasedTrack & { sortKey: number }) => track;
+
+  return {
+    decadeDistribution,
+    yearDistribution,
+    medianYear,
+    oldestTrack: toReleasedTrack(byDate[0]),
+    newestTrack: toReleasedTrack(byDate[byDate.length - 1]),
+    datedTracks: dated.length,
+    undatedTracks
+  };
+}
+
 // Function to get available genre seeds
-export async function getAvailableGenres(accessToken: string) {
+export async function getAvailableGenres(accessToken: string, signal?: AbortSignal) {
   if (!accessToken) {
     throw new Error('No access token provided');
   }
@@ -585,28 +1770,15 @@ export async function getAvailableGenres(accessToken: string) {
       return retryableSpotifyCall(async () => {
         console.log('Fetching available genre seeds...');
         
-        // Use direct fetch instead of spotifyApi which doesn't have this method
-        const response = await fetch('https://api.spotify.com/v1/recommendations/available-genre-seeds', {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json'
-          }
-        });
-        
-        if (!response.ok) {
-          console.error('Error fetching available genres:', {
-            status: response.status,
-            statusText: response.statusText
-          });
-          return ['pop', 'rock', 'indie']; // Default fallback genres
-        }
-        
-        const data = await response.json();
+        const data = await spotifyFetch(accessToken, `${SPOTIFY_API_BASE_URL}/recommendations/available-genre-seeds`, { signal });
         console.log(`Found ${data.genres?.length || 0} available genres`);
         return data.genres || ['pop', 'rock', 'indie'];
-      });
-    });
+      }, { signal });
+    }, signal);
   } catch (error) {
+    // Cancellations and expired tokens have to reach the caller
+    if (isAbortError(error) || error instanceof SpotifyAuthError) throw error;
+    
     console.error('Error fetching available genres:', error);
     // Return default genres if we can't fetch them
     return ['pop', 'rock', 'indie'];
@@ -19,6 +19,8 @@ declare module 'next-auth/jwt' {
     accessTokenExpires?: number;
     error?: string;
     user?: {
+      // Spotify user ID (or fixture user ID in demo mode)
+      id?: string;
       name?: string | null;
       email?: string | null;
       image?: string | null;